@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+
+/**
+ * Append-only NDJSON archive with daily rotation, used by the local collection scripts.
+ *
+ * - One file per UTC day: `<prefix>-YYYY-MM-DD.ndjson`. Records go to the file for their own
+ *   timestamp, so a batch that straddles midnight is split across two files.
+ * - Each append is a single `write` of whole lines followed by `fsync`. If a crash leaves a
+ *   partial last line, the next append starts on a fresh line and readers skip the fragment.
+ * - Closed (past) days can be gzipped to `<prefix>-YYYY-MM-DD.ndjson.gz`. The compressed file
+ *   is written to a temp name and renamed into place before the plain file is removed, so a
+ *   crash at any point leaves at least one complete copy (readers prefer the `.gz`).
+ * - Readers stream records in time order.
+ * - A legacy single-file JSON cache (`{ records: [...] }`, the format `cache-speeds` wrote
+ *   before this archive existed) is converted into daily files once by
+ *   `migrateLegacyArchiveFile`, then renamed out of the way.
+ */
+
+export type ArchiveOptions = {
+    dir: string;
+    /** File name prefix, e.g. `speed` → `speed-2026-01-20.ndjson`. */
+    prefix: string;
+};
+
+export type ArchiveReadOptions = ArchiveOptions & {
+    fromMs?: number;
+    toMs?: number;
+};
+
+export type ArchiveFile = {
+    day: string; // YYYY-MM-DD (UTC)
+    path: string;
+    gzipped: boolean;
+};
+
+type TimestampedRecord = { timestampMs: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_PATTERN = '(\\d{4}-\\d{2}-\\d{2})';
+
+export function archiveDay(ms: number): string {
+    return new Date(ms).toISOString().slice(0, 10);
+}
+
+function dayStartMs(day: string): number {
+    return Date.parse(`${day}T00:00:00.000Z`);
+}
+
+function archivePath(options: ArchiveOptions, day: string): string {
+    return path.join(options.dir, `${options.prefix}-${day}.ndjson`);
+}
+
+/** Archive files by day, oldest first. When both a plain and a gzipped file exist for a day, the gzipped one wins. */
+export function listArchiveFiles(options: ArchiveOptions): ArchiveFile[] {
+    if (!fs.existsSync(options.dir)) return [];
+    const pattern = new RegExp(`^${options.prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-${DAY_PATTERN}\\.ndjson(\\.gz)?$`);
+    const filesByDay = new Map<string, ArchiveFile>();
+    for (const name of fs.readdirSync(options.dir)) {
+        const match = pattern.exec(name);
+        if (!match) continue;
+        const file: ArchiveFile = { day: match[1], path: path.join(options.dir, name), gzipped: !!match[2] };
+        const existing = filesByDay.get(file.day);
+        if (!existing || file.gzipped) filesByDay.set(file.day, file);
+    }
+    return [...filesByDay.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
+
+function appendLines(file: string, text: string): void {
+    const fd = fs.openSync(file, 'a+');
+    try {
+        const { size } = fs.fstatSync(fd);
+        let prefix = '';
+        if (size > 0) {
+            // Isolate a fragment left by a crashed write so it can't corrupt the next record.
+            const last = Buffer.alloc(1);
+            fs.readSync(fd, last, 0, 1, size - 1);
+            if (last[0] !== 0x0a) prefix = '\n';
+        }
+        fs.writeSync(fd, prefix + text);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/** Append records to the file for each record's UTC day. */
+export function appendArchiveRecords<T extends TimestampedRecord>(options: ArchiveOptions, records: T[]): void {
+    if (records.length === 0) return;
+    fs.mkdirSync(options.dir, { recursive: true });
+
+    const linesByDay = new Map<string, string[]>();
+    for (const record of records) {
+        const day = archiveDay(record.timestampMs);
+        const lines = linesByDay.get(day) ?? [];
+        lines.push(JSON.stringify(record));
+        linesByDay.set(day, lines);
+    }
+    for (const [day, lines] of linesByDay) {
+        const gzipped = `${archivePath(options, day)}.gz`;
+        if (fs.existsSync(gzipped)) {
+            // Late records for a day that was already compressed; the reader would ignore a plain file.
+            console.warn(`Archive day ${day} is already compressed; dropping ${lines.length} late records`);
+            continue;
+        }
+        appendLines(archivePath(options, day), `${lines.join('\n')}\n`);
+    }
+}
+
+/** Gzip every plain file for a day before `nowMs`'s UTC day. Returns the days compressed. */
+export async function compressClosedArchiveFiles(options: ArchiveOptions, nowMs: number): Promise<string[]> {
+    const today = archiveDay(nowMs);
+    const compressed: string[] = [];
+    for (const file of listArchiveFiles(options)) {
+        const plain = archivePath(options, file.day);
+        if (file.day >= today) continue;
+        if (file.gzipped) {
+            // A crash after the rename left the plain copy behind.
+            if (fs.existsSync(plain)) fs.unlinkSync(plain);
+            continue;
+        }
+
+        const tmp = `${plain}.gz.tmp`;
+        await pipeline(fs.createReadStream(plain), createGzip(), fs.createWriteStream(tmp));
+        const fd = fs.openSync(tmp, 'r');
+        try {
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(tmp, `${plain}.gz`);
+        fs.unlinkSync(plain);
+        compressed.push(file.day);
+    }
+    return compressed;
+}
+
+function inRange(record: TimestampedRecord, options: ArchiveReadOptions): boolean {
+    if (options.fromMs !== undefined && record.timestampMs < options.fromMs) return false;
+    if (options.toMs !== undefined && record.timestampMs >= options.toMs) return false;
+    return true;
+}
+
+async function* readArchiveFile<T extends TimestampedRecord>(file: ArchiveFile): AsyncGenerator<T> {
+    const raw = fs.createReadStream(file.path);
+    const input = file.gzipped ? raw.pipe(createGunzip()) : raw;
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let skipped = 0;
+    try {
+        for await (const line of lines) {
+            if (!line.trim()) continue;
+            let record: T;
+            try {
+                record = JSON.parse(line) as T;
+            } catch {
+                skipped++;
+                continue;
+            }
+            if (typeof record?.timestampMs !== 'number') {
+                skipped++;
+                continue;
+            }
+            yield record;
+        }
+    } finally {
+        lines.close();
+        raw.destroy();
+    }
+    if (skipped > 0) console.warn(`Skipped ${skipped} malformed lines in ${file.path}`);
+}
+
+/**
+ * Stream archived records (daily files in order), limited to `[fromMs, toMs)` when given.
+ * Files entirely outside the range are not opened.
+ */
+export async function* readArchive<T extends TimestampedRecord>(options: ArchiveReadOptions): AsyncGenerator<T> {
+    for (const file of listArchiveFiles(options)) {
+        const startMs = dayStartMs(file.day);
+        if (options.toMs !== undefined && startMs >= options.toMs) break;
+        if (options.fromMs !== undefined && startMs + DAY_MS <= options.fromMs) continue;
+        for await (const record of readArchiveFile<T>(file)) {
+            if (inRange(record, options)) yield record;
+        }
+    }
+}
+
+/**
+ * Move the records of a legacy `{ records: [...] }` JSON cache into the daily files, then
+ * rename it to `<file>.migrated`. Returns the number of records written, or `null` if there
+ * is no legacy file (or it can't be read, in which case it is left in place).
+ *
+ * Records already in the archive are skipped, so rerunning after a crash between the append
+ * and the rename doesn't duplicate them.
+ */
+export async function migrateLegacyArchiveFile(options: ArchiveOptions, legacyFile: string): Promise<number | null> {
+    if (!fs.existsSync(legacyFile)) return null;
+
+    let records: TimestampedRecord[];
+    try {
+        const data = JSON.parse(fs.readFileSync(legacyFile, 'utf-8')) as { records?: unknown };
+        records = (Array.isArray(data.records) ? (data.records as TimestampedRecord[]) : []).filter(
+            (r) => typeof r?.timestampMs === 'number'
+        );
+    } catch (error) {
+        console.warn(`Could not read legacy cache ${legacyFile}, not migrating it:`, error);
+        return null;
+    }
+    records.sort((a, b) => a.timestampMs - b.timestampMs);
+
+    let pending = records;
+    if (records.length > 0) {
+        const existing = new Set<string>();
+        const range = { fromMs: records[0].timestampMs, toMs: records[records.length - 1].timestampMs + 1 };
+        for await (const record of readArchive({ ...options, ...range })) existing.add(JSON.stringify(record));
+        pending = records.filter((r) => !existing.has(JSON.stringify(r)));
+    }
+
+    appendArchiveRecords(options, pending);
+    fs.renameSync(legacyFile, `${legacyFile}.migrated`);
+    return pending.length;
+}
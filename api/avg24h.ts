@@ -1,44 +1,53 @@
+import { delManyChunked, mgetChunked, setManyChunked, type KvClient } from './kv';
+
 export type LiveRouteSample = {
     routeTag: string;
     liveSpeedKmh: number;
 };
 
-type SpeedSample = {
+export type SpeedSample = {
     t: number; // timestamp (ms since epoch)
     v: number; // speed (km/h)
 };
 
-const WINDOW_MS = 24 * 60 * 60 * 1000;
-const SAMPLE_INTERVAL_MS = 60 * 1000; // sample at most once per minute
+export const WINDOW_MS = 24 * 60 * 60 * 1000;
+export const SAMPLE_INTERVAL_MS = 60 * 1000; // sample at most once per minute
 
-// Serverless safeguards:
-// - Keep sample history bounded so per-route payloads don't grow unbounded.
-// - Chunk KV multi-gets and pipeline writes to avoid large request payloads / URL length limits.
-const MAX_SAMPLES_PER_ROUTE = Math.ceil(WINDOW_MS / SAMPLE_INTERVAL_MS) + 2;
-const KV_MGET_CHUNK_SIZE = 100;
-const KV_SET_OPS_PER_PIPELINE = 200;
+const HOUR_MS = 60 * 60 * 1000;
 
-const KV_LAST_BUCKET_KEY = 'ttc:avg24h:lastBucketMs';
-const KV_SAMPLES_KEY_PREFIX = 'ttc:avg24h:samples:';
-const KV_AVG_KEY_PREFIX = 'ttc:avg24h:avg:';
+// Serverless safeguard: keep per-hour payloads bounded.
+const MAX_SAMPLES_PER_HOUR = Math.ceil(HOUR_MS / SAMPLE_INTERVAL_MS) + 2;
 
-type KvPipeline = {
-    set: (key: string, value: string) => KvPipeline;
-    exec: () => Promise<unknown>;
-};
+// Hour keys outlive the 24h window by a margin so the oldest (partial) hour is still readable.
+const HOUR_SAMPLES_TTL_MS = WINDOW_MS + 2 * HOUR_MS;
 
-type KvClient = {
-    get: (key: string) => Promise<unknown>;
-    mget: (...keys: string[]) => Promise<unknown[]>;
-    set: (key: string, value: string) => Promise<unknown>;
-    pipeline?: () => KvPipeline;
-};
+/**
+ * Sample layout: one key per route per hour, `ttc:avg24h:hour:<route>:<hourStartMs>`, holding
+ * at most 60 `[t, v]` tuples and expiring on its own. Each minute only the current hour's key
+ * is rewritten, instead of a whole day of samples per route.
+ *
+ * The previous layout (one `ttc:avg24h:samples:<route>` blob with the whole 24h) is still read
+ * during migration and deleted once everything in it has aged out of the window.
+ */
+const KV_LAST_BUCKET_KEY = 'ttc:avg24h:lastBucketMs';
+const KV_HOUR_SAMPLES_KEY_PREFIX = 'ttc:avg24h:hour:';
+const KV_LEGACY_SAMPLES_KEY_PREFIX = 'ttc:avg24h:samples:';
+const KV_CLAIM_KEY = 'ttc:avg24h:claim';
+// Rolling 24h log of skipped buckets, as `[startMs, endMs]` tuples.
+const KV_MISSED_KEY = 'ttc:sampler:missed';
+
+// Upper bound on one sampling pass. If a holder dies mid-pass, sampling resumes after this.
+const CLAIM_TTL_MS = 30 * 1000;
 
-function toBucketMs(nowMs: number): number {
+export function toBucketMs(nowMs: number): number {
     return Math.floor(nowMs / SAMPLE_INTERVAL_MS) * SAMPLE_INTERVAL_MS;
 }
 
-function asNumber(value: unknown): number | null {
+export function toHourMs(ms: number): number {
+    return Math.floor(ms / HOUR_MS) * HOUR_MS;
+}
+
+export function asNumber(value: unknown): number | null {
     if (typeof value === 'number' && Number.isFinite(value)) return value;
     if (typeof value === 'string') {
         const n = Number(value);
@@ -88,166 +97,303 @@ function serializeSamples(samples: SpeedSample[]): string {
     return JSON.stringify(tuples);
 }
 
-function trimAndUpsert(samples: SpeedSample[], cutoffMs: number, sample: SpeedSample): SpeedSample[] {
-    // Keep only last-24h window, and ensure at most one sample per bucket.
-    const kept = samples.filter((s) => Number.isFinite(s.t) && Number.isFinite(s.v) && s.t >= cutoffMs);
-    const withoutBucket = kept.filter((s) => s.t !== sample.t);
-    withoutBucket.push(sample);
-    withoutBucket.sort((a, b) => a.t - b.t);
+function upsertSample(samples: SpeedSample[], sample: SpeedSample): SpeedSample[] {
+    // Ensure at most one sample per bucket.
+    const kept = samples.filter((s) => Number.isFinite(s.t) && Number.isFinite(s.v) && s.t !== sample.t);
+    kept.push(sample);
+    kept.sort((a, b) => a.t - b.t);
 
     // Hard cap to avoid runaway payload size (serverless safeguard).
-    if (withoutBucket.length > MAX_SAMPLES_PER_ROUTE) {
-        return withoutBucket.slice(-MAX_SAMPLES_PER_ROUTE);
+    if (kept.length > MAX_SAMPLES_PER_HOUR) {
+        return kept.slice(-MAX_SAMPLES_PER_HOUR);
     }
-    return withoutBucket;
+    return kept;
 }
 
-function compute24hAvgKmh(samples: SpeedSample[], nowMs: number, cutoffMs: number): number | null {
-    if (samples.length === 0) return null;
-    const sorted = [...samples].sort((a, b) => a.t - b.t);
+/** Merge sample lists, keeping one sample per timestamp (earlier lists win), sorted by time. */
+function mergeSamples(...lists: SpeedSample[][]): SpeedSample[] {
+    const byT = new Map<number, SpeedSample>();
+    for (const list of lists) {
+        for (const s of list) {
+            if (!byT.has(s.t)) byT.set(s.t, s);
+        }
+    }
+    return [...byT.values()].sort((a, b) => a.t - b.t);
+}
 
-    let weightedSum = 0;
-    let totalWeight = 0;
+function hourSampleKey(routeTag: string, hourMs: number): string {
+    return `${KV_HOUR_SAMPLES_KEY_PREFIX}${routeTag}:${hourMs}`;
+}
 
-    for (let i = 0; i < sorted.length; i++) {
-        const s = sorted[i];
-        const start = Math.max(s.t, cutoffMs);
-        if (start > nowMs) continue;
+function legacySampleKey(routeTag: string): string {
+    return `${KV_LEGACY_SAMPLES_KEY_PREFIX}${routeTag}`;
+}
 
-        // Treat each sample as representative for its interval bucket only.
-        const nextT = sorted[i + 1]?.t ?? Number.POSITIVE_INFINITY;
-        const end = Math.min(nowMs, Math.min(nextT, s.t + SAMPLE_INTERVAL_MS));
-        const durationMs = end - start;
-        if (durationMs <= 0) continue;
+export type MissedRange = {
+    startMs: number; // first missed bucket
+    endMs: number; // exclusive (the bucket that was sampled next)
+    buckets: number;
+};
 
-        weightedSum += s.v * durationMs;
-        totalWeight += durationMs;
+export type MissedBucketReport = {
+    windowMs: number;
+    missedBucketCount: number;
+    ranges: MissedRange[];
+};
+
+function parseMissedRanges(raw: unknown): MissedRange[] {
+    let parsed: unknown = raw;
+    if (typeof raw === 'string') {
+        try {
+            parsed = JSON.parse(raw) as unknown;
+        } catch {
+            return [];
+        }
     }
+    if (!Array.isArray(parsed)) return [];
 
-    if (totalWeight <= 0) return null;
-    return weightedSum / totalWeight;
+    const out: MissedRange[] = [];
+    for (const item of parsed) {
+        if (!Array.isArray(item)) continue;
+        const startMs = asNumber(item[0]);
+        const endMs = asNumber(item[1]);
+        if (startMs === null || endMs === null || endMs <= startMs) continue;
+        out.push({ startMs, endMs, buckets: Math.round((endMs - startMs) / SAMPLE_INTERVAL_MS) });
+    }
+    return out.sort((a, b) => a.startMs - b.startMs);
 }
 
-function round1(n: number): number {
-    return Math.round(n * 10) / 10;
+function serializeMissedRanges(ranges: MissedRange[]): string {
+    const tuples: Array<[number, number]> = ranges.map((r) => [r.startMs, r.endMs]);
+    return JSON.stringify(tuples);
 }
 
-function sampleKey(routeTag: string): string {
-    return `${KV_SAMPLES_KEY_PREFIX}${routeTag}`;
-}
+/**
+ * Buckets strictly between the previously sampled bucket and this one, clipped to the
+ * retained 24h window (older gaps no longer affect anything).
+ */
+export function findMissedRange(lastBucketMs: number | null, bucketMs: number): MissedRange | null {
+    if (lastBucketMs === null || bucketMs - lastBucketMs <= SAMPLE_INTERVAL_MS) return null;
 
-function avgKey(routeTag: string): string {
-    return `${KV_AVG_KEY_PREFIX}${routeTag}`;
+    const startMs = Math.max(lastBucketMs + SAMPLE_INTERVAL_MS, toBucketMs(bucketMs - WINDOW_MS));
+    if (startMs >= bucketMs) return null;
+    return { startMs, endMs: bucketMs, buckets: Math.round((bucketMs - startMs) / SAMPLE_INTERVAL_MS) };
 }
 
-function chunk<T>(items: T[], size: number): T[][] {
-    if (size <= 0) return [items];
-    const out: T[][] = [];
-    for (let i = 0; i < items.length; i += size) {
-        out.push(items.slice(i, i + size));
-    }
-    return out;
+function summarizeMissedRanges(ranges: MissedRange[], nowMs: number): MissedBucketReport {
+    const cutoffMs = nowMs - WINDOW_MS;
+    const clipped = ranges
+        .filter((r) => r.endMs > cutoffMs)
+        .map((r) => {
+            const startMs = Math.max(r.startMs, toBucketMs(cutoffMs));
+            return { startMs, endMs: r.endMs, buckets: Math.round((r.endMs - startMs) / SAMPLE_INTERVAL_MS) };
+        });
+    return {
+        windowMs: WINDOW_MS,
+        missedBucketCount: clipped.reduce((acc, r) => acc + r.buckets, 0),
+        ranges: clipped,
+    };
 }
 
-async function mgetChunked(client: KvClient, keys: string[]): Promise<unknown[]> {
-    if (keys.length === 0) return [];
-    const out: unknown[] = [];
-    for (const part of chunk(keys, KV_MGET_CHUNK_SIZE)) {
-        const values = (await client.mget(...part)) as unknown[];
-        out.push(...values);
-    }
-    return out;
+async function recordMissedRange(client: KvClient, missed: MissedRange, nowMs: number): Promise<void> {
+    const ranges = parseMissedRanges(await client.get(KV_MISSED_KEY));
+    ranges.push(missed);
+    const { ranges: kept } = summarizeMissedRanges(ranges, nowMs);
+    await client.set(KV_MISSED_KEY, serializeMissedRanges(kept));
 }
 
-async function setManyChunked(client: KvClient, kvSets: Array<[string, string]>): Promise<void> {
-    if (kvSets.length === 0) return;
+/** Missed sampling buckets over the last 24h (read-only). */
+export async function readMissedBucketReport(client: KvClient, nowMs: number): Promise<MissedBucketReport> {
+    return summarizeMissedRanges(parseMissedRanges(await client.get(KV_MISSED_KEY)), nowMs);
+}
 
-    const pipelineFactory = typeof client.pipeline === 'function' ? client.pipeline : null;
-    if (pipelineFactory) {
-        for (const part of chunk(kvSets, KV_SET_OPS_PER_PIPELINE)) {
-            const p = pipelineFactory.call(client);
-            for (const [k, v] of part) p.set(k, v);
-            await p.exec();
-        }
-        return;
-    }
+/**
+ * Atomically claim the sampler (`SET NX PX`) for one bucket. Only the holder may
+ * read-modify-write sample history, so overlapping invocations (same bucket or adjacent
+ * ones) can't clobber each other. Returns the claim token, or `null` if someone else holds it.
+ */
+async function claimSampling(client: KvClient, bucketMs: number): Promise<string | null> {
+    const token = `${bucketMs}:${Math.random().toString(36).slice(2)}`;
+    const result = await client.set(KV_CLAIM_KEY, token, { nx: true, px: CLAIM_TTL_MS });
+    return result === 'OK' ? token : null;
+}
 
-    // Limit concurrency by chunking to avoid overwhelming the runtime/network.
-    for (const part of chunk(kvSets, KV_SET_OPS_PER_PIPELINE)) {
-        await Promise.all(part.map(([k, v]) => client.set(k, v)));
-    }
+async function releaseSampling(client: KvClient, token: string): Promise<void> {
+    // Only release our own claim (it may have expired and been taken by someone else).
+    if ((await client.get(KV_CLAIM_KEY)) === token) await client.del(KV_CLAIM_KEY);
 }
 
+export type MinuteSampleUpdate = {
+    /** The per-minute bucket this call belongs to. */
+    bucketMs: number;
+    /** The previously sampled bucket (`null` if none was recorded yet). */
+    lastBucketMs: number | null;
+    /**
+     * `false` if this bucket was already sampled (nothing was written); callers should read
+     * their cached averages instead.
+     */
+    sampled: boolean;
+    /**
+     * The current hour's samples per live route, including this bucket (sorted); empty when
+     * `sampled` is `false`. Older hours can be read with `readHourSamples`.
+     */
+    samplesByRouteTag: Record<string, SpeedSample[]>;
+};
+
 /**
- * Compute (and persist) rolling 24h averages for the given live per-route samples.
+ * Record this minute's live per-route speeds into the rolling sample history.
  *
  * Behavior:
- * - Samples are stored per-route as a compact JSON array of `[t, v]` tuples (timestamp + km/h).
- *   (Back-compat: older `{ t, v }` objects are still readable.)
- * - Old samples (>24h) are trimmed on write.
- * - A time-weighted 24h average is computed over the retained window and persisted separately
- *   so most requests can read averages without scanning sample history.
+ * - Samples are stored per route and hour as a compact JSON array of `[t, v]` tuples
+ *   (timestamp + km/h). (Back-compat: older `{ t, v }` objects are still readable.)
+ * - At most one sample per route per minute bucket; hour keys expire on their own.
+ * - If the current bucket has already been sampled, nothing is read or written.
+ * - Concurrent invocations race for an atomic claim; losers skip the bucket instead of
+ *   rewriting history the holder is writing. An invocation that finds its bucket (or a newer
+ *   one) already recorded skips too.
+ * - Buckets skipped since the previous sample are added to the missed-bucket log (see
+ *   `readMissedBucketReport`), whichever caller (page request or scheduled sampler) samples
+ *   first after the gap.
+ * - `onSampled` runs while the claim is still held, so follow-up read-modify-writes
+ *   (rollups, profiles) are serialized the same way.
  */
-export async function getAvg24hSpeedsByRouteTag(
-    kv: unknown,
+export async function recordMinuteSamples(
+    client: KvClient,
     liveRoutes: LiveRouteSample[],
-    nowMs: number
-): Promise<Record<string, number | null>> {
-    const client = kv as KvClient;
+    nowMs: number,
+    onSampled?: (update: MinuteSampleUpdate) => Promise<void>
+): Promise<MinuteSampleUpdate> {
     const bucketMs = toBucketMs(nowMs);
-    const cutoffMs = nowMs - WINDOW_MS;
 
-    const lastBucketRaw = await client.get(KV_LAST_BUCKET_KEY);
-    const lastBucketMs = asNumber(lastBucketRaw);
+    // Cheap check first: most calls land in a bucket that was already sampled.
+    let lastBucketMs = asNumber(await client.get(KV_LAST_BUCKET_KEY));
 
     const routeTags = [...new Set(liveRoutes.map((r) => r.routeTag))];
-    if (routeTags.length === 0) return {};
+    if (routeTags.length === 0 || (lastBucketMs !== null && lastBucketMs >= bucketMs)) {
+        return { bucketMs, lastBucketMs, sampled: false, samplesByRouteTag: {} };
+    }
 
-    // Avoid O(n^2) lookups when many routes are present (serverless safeguard).
-    const liveByTag = new Map<string, number>();
-    for (const r of liveRoutes) liveByTag.set(r.routeTag, r.liveSpeedKmh);
+    const token = await claimSampling(client, bucketMs);
+    if (token === null) {
+        return { bucketMs, lastBucketMs, sampled: false, samplesByRouteTag: {} };
+    }
 
-    // If we've already sampled for this bucket, just read the latest cached averages.
-    if (lastBucketMs === bucketMs) {
-        const keys = routeTags.map(avgKey);
-        const values = await mgetChunked(client, keys);
+    try {
+        // Re-read under the claim: the previous holder may have just finished this bucket.
+        lastBucketMs = asNumber(await client.get(KV_LAST_BUCKET_KEY));
+        if (lastBucketMs !== null && lastBucketMs >= bucketMs) {
+            return { bucketMs, lastBucketMs, sampled: false, samplesByRouteTag: {} };
+        }
 
-        const out: Record<string, number | null> = {};
-        for (let i = 0; i < routeTags.length; i++) {
-            const v = asNumber(values[i]);
-            out[routeTags[i]] = v === null ? null : round1(v);
+        const update = await writeMinuteSamples(client, liveRoutes, routeTags, bucketMs, lastBucketMs);
+        const missed = findMissedRange(lastBucketMs, bucketMs);
+        if (missed) await recordMissedRange(client, missed, bucketMs);
+        if (lastBucketMs === null || toHourMs(lastBucketMs) !== toHourMs(bucketMs)) {
+            await dropExpiredLegacySamples(client, routeTags, bucketMs - WINDOW_MS);
         }
-        return out;
+        if (onSampled) await onSampled(update);
+        return update;
+    } finally {
+        await releaseSampling(client, token);
     }
+}
 
-    // Otherwise: update sample history and refresh cached averages for this bucket.
-    const samplesKeys = routeTags.map(sampleKey);
-    const existing = await mgetChunked(client, samplesKeys);
+async function writeMinuteSamples(
+    client: KvClient,
+    liveRoutes: LiveRouteSample[],
+    routeTags: string[],
+    bucketMs: number,
+    lastBucketMs: number | null
+): Promise<MinuteSampleUpdate> {
+    // Avoid O(n^2) lookups when many routes are present (serverless safeguard).
+    const liveByTag = new Map<string, number>();
+    for (const r of liveRoutes) liveByTag.set(r.routeTag, r.liveSpeedKmh);
+
+    const hourMs = toHourMs(bucketMs);
+    const existing = await mgetChunked(client, routeTags.map((tag) => hourSampleKey(tag, hourMs)));
 
     const kvSets: Array<[string, string]> = [];
-    const out: Record<string, number | null> = {};
+    const samplesByRouteTag: Record<string, SpeedSample[]> = {};
 
     for (let i = 0; i < routeTags.length; i++) {
         const tag = routeTags[i];
         const currentLiveSpeed = liveByTag.get(tag);
-        if (currentLiveSpeed === undefined) {
-            out[tag] = null;
-            continue;
-        }
+        if (currentLiveSpeed === undefined) continue;
 
         const prevSamples = parseSamples(existing[i]);
-        const nextSamples = trimAndUpsert(prevSamples, cutoffMs, { t: bucketMs, v: currentLiveSpeed });
-        const avg = compute24hAvgKmh(nextSamples, nowMs, cutoffMs);
+        const nextSamples = upsertSample(prevSamples, { t: bucketMs, v: currentLiveSpeed });
 
-        out[tag] = avg === null ? null : round1(avg);
-        kvSets.push([sampleKey(tag), serializeSamples(nextSamples)]);
-        kvSets.push([avgKey(tag), String(out[tag])]);
+        samplesByRouteTag[tag] = nextSamples;
+        kvSets.push([hourSampleKey(tag, hourMs), serializeSamples(nextSamples)]);
     }
 
     // Persist updates best-effort; caller should degrade gracefully on any KV failure.
-    await setManyChunked(client, kvSets);
+    await setManyChunked(client, kvSets, { px: HOUR_SAMPLES_TTL_MS });
     await client.set(KV_LAST_BUCKET_KEY, String(bucketMs));
 
+    return { bucketMs, lastBucketMs, sampled: true, samplesByRouteTag };
+}
+
+/**
+ * Delete legacy whole-history blobs once every sample in them is older than `cutoffMs`
+ * (checked once per hour).
+ */
+async function dropExpiredLegacySamples(client: KvClient, routeTags: string[], cutoffMs: number): Promise<void> {
+    const raw = await mgetChunked(client, routeTags.map(legacySampleKey));
+    const expiredKeys: string[] = [];
+    for (let i = 0; i < routeTags.length; i++) {
+        if (raw[i] === null || raw[i] === undefined) continue;
+        const samples = parseSamples(raw[i]);
+        if (samples.every((s) => s.t < cutoffMs)) expiredKeys.push(legacySampleKey(routeTags[i]));
+    }
+    await delManyChunked(client, expiredKeys);
+}
+
+/**
+ * Read the samples of the given hours (hour start timestamps) for each route (read-only).
+ *
+ * Returns samples sorted by time; routes with no samples map to `[]`.
+ */
+export async function readHourSamples(
+    client: KvClient,
+    routeTags: string[],
+    hourStartsMs: number[]
+): Promise<Record<string, SpeedSample[]>> {
+    const tags = [...new Set(routeTags)];
+    const keys = tags.flatMap((tag) => hourStartsMs.map((hourMs) => hourSampleKey(tag, hourMs)));
+    const raw = await mgetChunked(client, keys);
+
+    const out: Record<string, SpeedSample[]> = {};
+    for (let i = 0; i < tags.length; i++) {
+        const perHour = hourStartsMs.map((_, j) => parseSamples(raw[i * hourStartsMs.length + j]));
+        out[tags[i]] = mergeSamples(...perHour);
+    }
     return out;
 }
 
+/**
+ * Read retained per-minute sample history (the 24h window ending at `nowMs`) for the given
+ * routes (read-only), including samples still in the legacy per-route blobs.
+ *
+ * Returns samples sorted by time; routes with no history map to `[]`.
+ */
+export async function readSampleHistory(
+    client: KvClient,
+    routeTags: string[],
+    nowMs: number
+): Promise<Record<string, SpeedSample[]>> {
+    const tags = [...new Set(routeTags)];
+    const cutoffMs = nowMs - WINDOW_MS;
+
+    const hourStartsMs: number[] = [];
+    for (let hourMs = toHourMs(cutoffMs); hourMs <= nowMs; hourMs += HOUR_MS) hourStartsMs.push(hourMs);
+
+    const byHour = await readHourSamples(client, tags, hourStartsMs);
+    const legacy = await mgetChunked(client, tags.map(legacySampleKey));
+
+    const out: Record<string, SpeedSample[]> = {};
+    for (let i = 0; i < tags.length; i++) {
+        out[tags[i]] = mergeSamples(byHour[tags[i]], parseSamples(legacy[i])).filter((s) => s.t >= cutoffMs);
+    }
+    return out;
+}
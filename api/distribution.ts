@@ -0,0 +1,79 @@
+import { computeSpeedStat, round1 } from './ingest';
+
+/**
+ * Speed distribution statistics for a set of vehicle speeds (km/h).
+ *
+ * Answers "is the whole route slow or just one stuck car?": percentiles, the share of stopped
+ * vehicles, and a fixed-width histogram.
+ */
+
+export type HistogramBin = {
+    minKmh: number;
+    /** Exclusive upper bound; `null` for the open-ended last bin. */
+    maxKmh: number | null;
+    count: number;
+};
+
+export type SpeedDistribution = {
+    sampleCount: number;
+    minKmh: number;
+    p10Kmh: number;
+    medianKmh: number;
+    meanKmh: number;
+    p90Kmh: number;
+    maxKmh: number;
+    /** Fraction (0..1) of vehicles at 0 km/h. */
+    stoppedShare: number;
+    histogram: HistogramBin[];
+};
+
+const HISTOGRAM_BIN_WIDTH_KMH = 5;
+const HISTOGRAM_OPEN_BIN_START_KMH = 60; // everything at or above this lands in the last bin
+
+/**
+ * Percentile with linear interpolation between closest ranks (`p` in 0..100).
+ *
+ * `sorted` must be non-empty and sorted ascending.
+ */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 1) return sorted[0];
+    const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+    const lo = Math.floor(rank);
+    const hi = Math.ceil(rank);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+function buildHistogram(sorted: number[]): HistogramBin[] {
+    const bins: HistogramBin[] = [];
+    for (let min = 0; min < HISTOGRAM_OPEN_BIN_START_KMH; min += HISTOGRAM_BIN_WIDTH_KMH) {
+        bins.push({ minKmh: min, maxKmh: min + HISTOGRAM_BIN_WIDTH_KMH, count: 0 });
+    }
+    bins.push({ minKmh: HISTOGRAM_OPEN_BIN_START_KMH, maxKmh: null, count: 0 });
+
+    for (const v of sorted) {
+        const index = Math.min(bins.length - 1, Math.floor(v / HISTOGRAM_BIN_WIDTH_KMH));
+        bins[index].count += 1;
+    }
+    return bins;
+}
+
+/**
+ * Compute distribution statistics, or `null` when there are no speeds.
+ */
+export function computeSpeedDistribution(speeds: number[]): SpeedDistribution | null {
+    if (speeds.length === 0) return null;
+    const sorted = [...speeds].sort((a, b) => a - b);
+    const stopped = sorted.filter((v) => v === 0).length;
+
+    return {
+        sampleCount: sorted.length,
+        minKmh: round1(sorted[0]),
+        p10Kmh: round1(percentile(sorted, 10)),
+        medianKmh: round1(computeSpeedStat(sorted, 'median')),
+        meanKmh: round1(computeSpeedStat(sorted, 'mean')),
+        p90Kmh: round1(percentile(sorted, 90)),
+        maxKmh: round1(sorted[sorted.length - 1]),
+        stoppedShare: Math.round((stopped / sorted.length) * 1000) / 1000,
+        histogram: buildHistogram(sorted),
+    };
+}
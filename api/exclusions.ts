@@ -0,0 +1,134 @@
+import type { VehicleObservation } from './ingest';
+import { haversineDistanceM } from './positions';
+import type { RouteStop } from './routeConfig';
+
+/**
+ * Exclusion rules applied before per-route averaging.
+ *
+ * Vehicles that are not representative of in-service running drag route averages toward zero:
+ * - `stale`: the last report is older than `maxReportAgeSecs`
+ * - `nonPredictable`: the feed marks the vehicle `predictable="false"` (not in service / off-route)
+ * - `layover`: the vehicle is (nearly) stationary within `layoverRadiusM` of a route terminal
+ *
+ * Each excluded vehicle is counted once, under the first rule it fails in the order above.
+ *
+ * Configuration (environment):
+ * - `TTC_MAX_REPORT_AGE_SECS` (default 120; `0` disables)
+ * - `TTC_EXCLUDE_NON_PREDICTABLE` (default `true`)
+ * - `TTC_LAYOVER_RADIUS_M` (default 150; `0` disables)
+ */
+
+export type ExclusionRules = {
+    maxReportAgeSecs: number | null;
+    excludeNonPredictable: boolean;
+    layoverRadiusM: number | null;
+};
+
+export type ExclusionCounts = {
+    stale: number;
+    nonPredictable: number;
+    layover: number;
+};
+
+export type ExclusionReason = keyof ExclusionCounts;
+
+export type ExcludedObservation = {
+    observation: VehicleObservation;
+    reason: ExclusionReason;
+};
+
+export type ExclusionResult = {
+    kept: VehicleObservation[];
+    excluded: ExcludedObservation[];
+    excludedByRouteTag: Record<string, ExclusionCounts>;
+};
+
+const DEFAULT_MAX_REPORT_AGE_SECS = 120;
+const DEFAULT_LAYOVER_RADIUS_M = 150;
+
+// A vehicle crawling through a terminal loop is still in service; only treat it as laying over
+// when it is (nearly) stationary or not reporting a speed at all.
+const LAYOVER_MAX_SPEED_KMH = 3;
+
+function readNonNegativeNumberEnv(name: string, fallback: number): number | null {
+    const raw = (process.env[name] ?? '').trim();
+    if (!raw) return fallback;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) return fallback;
+    return n === 0 ? null : n;
+}
+
+function readBooleanEnv(name: string, fallback: boolean): boolean {
+    const raw = (process.env[name] ?? '').trim().toLowerCase();
+    if (raw === 'true' || raw === '1') return true;
+    if (raw === 'false' || raw === '0') return false;
+    return fallback;
+}
+
+export function getExclusionRules(): ExclusionRules {
+    return {
+        maxReportAgeSecs: readNonNegativeNumberEnv('TTC_MAX_REPORT_AGE_SECS', DEFAULT_MAX_REPORT_AGE_SECS),
+        excludeNonPredictable: readBooleanEnv('TTC_EXCLUDE_NON_PREDICTABLE', true),
+        layoverRadiusM: readNonNegativeNumberEnv('TTC_LAYOVER_RADIUS_M', DEFAULT_LAYOVER_RADIUS_M),
+    };
+}
+
+export function emptyExclusionCounts(): ExclusionCounts {
+    return { stale: 0, nonPredictable: 0, layover: 0 };
+}
+
+function isOnLayover(o: VehicleObservation, terminals: RouteStop[] | undefined, radiusM: number): boolean {
+    if (!terminals || terminals.length === 0) return false;
+    if (o.lat === null || o.lon === null) return false;
+    if (o.speedKmh !== null && o.speedKmh > LAYOVER_MAX_SPEED_KMH) return false;
+
+    const { lat, lon } = o;
+    return terminals.some((t) => haversineDistanceM(lat, lon, t.lat, t.lon) <= radiusM);
+}
+
+function exclusionReason(
+    o: VehicleObservation,
+    rules: ExclusionRules,
+    terminalsByRouteTag: Record<string, RouteStop[]>
+): ExclusionReason | null {
+    if (rules.maxReportAgeSecs !== null && o.secsSinceReport !== null && o.secsSinceReport > rules.maxReportAgeSecs) {
+        return 'stale';
+    }
+    if (rules.excludeNonPredictable && o.predictable === false) {
+        return 'nonPredictable';
+    }
+    if (rules.layoverRadiusM !== null && isOnLayover(o, terminalsByRouteTag[o.routeTag], rules.layoverRadiusM)) {
+        return 'layover';
+    }
+    return null;
+}
+
+/**
+ * Split observations into those kept for averaging and per-route counts of excluded vehicles.
+ *
+ * Routes without known terminals (no `routeConfig` yet) simply skip the layover rule.
+ */
+export function applyExclusionRules(
+    observations: VehicleObservation[],
+    rules: ExclusionRules,
+    terminalsByRouteTag: Record<string, RouteStop[]>
+): ExclusionResult {
+    const kept: VehicleObservation[] = [];
+    const excluded: ExcludedObservation[] = [];
+    const excludedByRouteTag: Record<string, ExclusionCounts> = {};
+
+    for (const o of observations) {
+        const reason = exclusionReason(o, rules, terminalsByRouteTag);
+        if (reason === null) {
+            kept.push(o);
+            continue;
+        }
+        excluded.push({ observation: o, reason });
+        if (!excludedByRouteTag[o.routeTag]) {
+            excludedByRouteTag[o.routeTag] = emptyExclusionCounts();
+        }
+        excludedByRouteTag[o.routeTag][reason] += 1;
+    }
+
+    return { kept, excluded, excludedByRouteTag };
+}
@@ -0,0 +1,120 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { SAMPLE_INTERVAL_MS, WINDOW_MS, readSampleHistory } from './avg24h';
+import { firstQueryValue, parseRouteTagsParam } from './http';
+import { getKvClient, type KvClient } from './kv';
+import { DAILY_RETENTION_MS, HOURLY_RETENTION_MS, readRollupHistory } from './rollups';
+import {
+    downsampleSamples,
+    parseDurationMs,
+    type SeriesGap,
+    type SeriesInput,
+    type SeriesPoint,
+} from './timeseries';
+
+type RouteHistory = {
+    routeTag: string;
+    points: SeriesPoint[];
+    gaps: SeriesGap[];
+};
+
+type HistoryResponse = {
+    window: string;
+    resolution: string;
+    startMs: number;
+    endMs: number;
+    routes: RouteHistory[];
+    updatedAt: string; // ISO string
+};
+
+const DEFAULT_WINDOW = '24h';
+
+type HistoryTier = {
+    /** Longest window this tier covers (its retention). */
+    maxWindowMs: number;
+    /** Finest resolution it can serve (its period). */
+    minResolutionMs: number;
+    defaultResolution: string;
+    read: (kv: KvClient, routeTags: string[], nowMs: number) => Promise<Record<string, SeriesInput[]>>;
+};
+
+// Finest first: a window is served by the first tier that still retains all of it.
+const HISTORY_TIERS: HistoryTier[] = [
+    { maxWindowMs: WINDOW_MS, minResolutionMs: SAMPLE_INTERVAL_MS, defaultResolution: '5m', read: readSampleHistory },
+    {
+        maxWindowMs: HOURLY_RETENTION_MS,
+        minResolutionMs: 60 * 60 * 1000,
+        defaultResolution: '1h',
+        read: (kv, routeTags) => readRollupHistory(kv, routeTags, 'hourly'),
+    },
+    {
+        maxWindowMs: DAILY_RETENTION_MS,
+        minResolutionMs: 24 * 60 * 60 * 1000,
+        defaultResolution: '1d',
+        read: (kv, routeTags) => readRollupHistory(kv, routeTags, 'daily'),
+    },
+];
+
+/**
+ * Historical time series from the retained KV history.
+ *
+ * `GET /api/history?route=501[,504...]&window=24h&resolution=5m`
+ *
+ * - `window`: how far back to look. Up to 24h reads minute samples, up to 30d the hourly
+ *   rollups and up to 366d the daily rollups (closed hours/days only).
+ * - `resolution`: bucket width, at least the tier's period (1m, 1h or 1d; defaults
+ *   to 5m, 1h or 1d)
+ * - Empty buckets are returned with `speedKmh: null` and summarized in `gaps`.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        const parsed = parseRouteTagsParam(req.query.route);
+        if ('error' in parsed) {
+            return res.status(400).json({ error: parsed.error });
+        }
+        const { routeTags } = parsed;
+
+        const window = (firstQueryValue(req.query.window) ?? DEFAULT_WINDOW).trim();
+        const windowMs = parseDurationMs(window);
+        const tier = windowMs === null ? undefined : HISTORY_TIERS.find((t) => windowMs <= t.maxWindowMs);
+        if (windowMs === null || !tier) {
+            return res.status(400).json({ error: 'Invalid window (e.g. 6h, 24h, 7d, 365d; max 366d)' });
+        }
+
+        const resolution = (firstQueryValue(req.query.resolution) ?? tier.defaultResolution).trim();
+        const resolutionMs = parseDurationMs(resolution);
+        if (resolutionMs === null || resolutionMs < tier.minResolutionMs || resolutionMs > windowMs) {
+            return res.status(400).json({
+                error: 'Invalid resolution (at least 1m up to a 24h window, 1h up to 30d, 1d beyond; at most the window)',
+            });
+        }
+
+        const kv = await getKvClient();
+        if (!kv) {
+            return res.status(503).json({ error: 'History unavailable (configure TTC_STORAGE_BACKEND or Vercel KV)' });
+        }
+
+        const nowMs = Date.now();
+        const startMs = nowMs - windowMs;
+        const samplesByRouteTag = await tier.read(kv, routeTags, nowMs);
+
+        const body: HistoryResponse = {
+            window,
+            resolution,
+            startMs,
+            endMs: nowMs,
+            routes: routeTags.map((routeTag) => ({
+                routeTag,
+                ...downsampleSamples(samplesByRouteTag[routeTag] ?? [], startMs, nowMs, resolutionMs),
+            })),
+            updatedAt: new Date(nowMs).toISOString(),
+        };
+
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Content-Type', 'application/json');
+
+        return res.status(200).json(body);
+    } catch (error) {
+        console.error('Error reading speed history:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+}
@@ -0,0 +1,162 @@
+import { asNumber } from './avg24h';
+import { round1 } from './ingest';
+import { mgetChunked, setManyChunked, type KvClient } from './kv';
+
+/**
+ * Hour-of-week speed profiles: the typical speed of a route for each of the 168 hours in a
+ * week (Monday 00:00 … Sunday 23:00, Toronto local time).
+ *
+ * Profiles are running sums, so they can be built incrementally: every closed hourly rollup
+ * (or archived sample) is folded into its bucket exactly once.
+ */
+
+export const PROFILE_TIME_ZONE = 'America/Toronto';
+export const HOURS_PER_WEEK = 7 * 24;
+export const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export type ProfileBucket = {
+    /** 0 = Monday … 6 = Sunday. */
+    day: number;
+    /** Local hour of day, 0–23. */
+    hour: number;
+    /** Mean speed across all samples that fell in this hour of the week, or `null` if none. */
+    speedKmh: number | null;
+    sampleCount: number;
+};
+
+/** Running `sum` of speeds and sample count `n` per hour-of-week index. */
+export type HourOfWeekProfile = Array<{ sum: number; n: number }>;
+
+/** A speed observation to fold into a profile; `n` weights pre-aggregated entries (default 1). */
+export type ProfileSample = {
+    t: number;
+    v: number;
+    n?: number;
+};
+
+const KV_PROFILE_KEY_PREFIX = 'ttc:profile:how:';
+
+const WEEKDAY_INDEX: Record<string, number> = { Mon: 0, Tue: 1, Wed: 2, Thu: 3, Fri: 4, Sat: 5, Sun: 6 };
+
+let localPartsFormatter: Intl.DateTimeFormat | null = null;
+
+function profileKey(routeTag: string): string {
+    return `${KV_PROFILE_KEY_PREFIX}${routeTag}`;
+}
+
+/**
+ * Hour-of-week index (`day * 24 + hour`) of a timestamp in Toronto local time.
+ *
+ * DST is handled by the time zone database: an hour belongs to whatever local hour it
+ * was on the wall clock.
+ */
+export function hourOfWeekIndex(ms: number): number {
+    if (!localPartsFormatter) {
+        localPartsFormatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: PROFILE_TIME_ZONE,
+            weekday: 'short',
+            hour: 'numeric',
+            hourCycle: 'h23',
+        });
+    }
+
+    let day = 0;
+    let hour = 0;
+    for (const part of localPartsFormatter.formatToParts(new Date(ms))) {
+        if (part.type === 'weekday') day = WEEKDAY_INDEX[part.value] ?? 0;
+        if (part.type === 'hour') hour = Number(part.value) % 24;
+    }
+    return day * 24 + hour;
+}
+
+export function emptyProfile(): HourOfWeekProfile {
+    return Array.from({ length: HOURS_PER_WEEK }, () => ({ sum: 0, n: 0 }));
+}
+
+/** Fold samples into `profile` (mutates and returns it). */
+export function accumulateProfile(profile: HourOfWeekProfile, samples: ProfileSample[]): HourOfWeekProfile {
+    for (const s of samples) {
+        if (!Number.isFinite(s.t) || !Number.isFinite(s.v)) continue;
+        const weight = s.n ?? 1;
+        if (weight <= 0) continue;
+        const bucket = profile[hourOfWeekIndex(s.t)];
+        bucket.sum += s.v * weight;
+        bucket.n += weight;
+    }
+    return profile;
+}
+
+export function toProfileBuckets(profile: HourOfWeekProfile): ProfileBucket[] {
+    return profile.map((b, index) => ({
+        day: Math.floor(index / 24),
+        hour: index % 24,
+        speedKmh: b.n > 0 ? round1(b.sum / b.n) : null,
+        sampleCount: b.n,
+    }));
+}
+
+function parseProfile(raw: unknown): HourOfWeekProfile {
+    let parsed: unknown = raw;
+    if (typeof raw === 'string') {
+        try {
+            parsed = JSON.parse(raw) as unknown;
+        } catch {
+            return emptyProfile();
+        }
+    }
+
+    const profile = emptyProfile();
+    if (!Array.isArray(parsed)) return profile;
+
+    // Compact encoding: 168 `[sum, n]` tuples.
+    for (let i = 0; i < Math.min(parsed.length, HOURS_PER_WEEK); i++) {
+        const item: unknown = parsed[i];
+        if (!Array.isArray(item)) continue;
+        const sum = asNumber(item[0]);
+        const n = asNumber(item[1]);
+        if (sum === null || n === null || n <= 0) continue;
+        profile[i] = { sum, n };
+    }
+    return profile;
+}
+
+function serializeProfile(profile: HourOfWeekProfile): string {
+    const tuples: Array<[number, number]> = profile.map((b) => [Math.round(b.sum * 100) / 100, b.n]);
+    return JSON.stringify(tuples);
+}
+
+/**
+ * Fold newly closed hourly rollups into each route's stored profile.
+ *
+ * Called from the hourly rollup tick with only the hours appended in that tick, so each hour
+ * is counted once.
+ */
+export async function recordProfileHours(
+    client: KvClient,
+    closedHoursByRouteTag: Record<string, ProfileSample[]>
+): Promise<void> {
+    const routeTags = Object.keys(closedHoursByRouteTag).filter((tag) => closedHoursByRouteTag[tag].length > 0);
+    if (routeTags.length === 0) return;
+
+    const existing = await mgetChunked(client, routeTags.map(profileKey));
+    const kvSets: Array<[string, string]> = routeTags.map((tag, i) => [
+        profileKey(tag),
+        serializeProfile(accumulateProfile(parseProfile(existing[i]), closedHoursByRouteTag[tag])),
+    ]);
+    await setManyChunked(client, kvSets);
+}
+
+/** Read stored profiles (read-only); routes without data get an empty profile. */
+export async function readProfiles(
+    client: KvClient,
+    routeTags: string[]
+): Promise<Record<string, HourOfWeekProfile>> {
+    const tags = [...new Set(routeTags)];
+    const raw = await mgetChunked(client, tags.map(profileKey));
+
+    const out: Record<string, HourOfWeekProfile> = {};
+    for (let i = 0; i < tags.length; i++) {
+        out[tags[i]] = parseProfile(raw[i]);
+    }
+    return out;
+}
@@ -0,0 +1,46 @@
+/**
+ * Query-string parsing shared by the handlers, plus `sleep`.
+ *
+ * Every endpoint that takes `?route=` validates it here, so the accepted syntax and the
+ * per-request limit can't drift between them.
+ */
+
+type QueryValue = string | string[] | undefined;
+
+export const MAX_ROUTES_PER_REQUEST = 25;
+
+export function firstQueryValue(value: QueryValue): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read `route=501,504` and/or repeated `route=501&route=504` (trimmed, de-duplicated).
+ *
+ * Returns an error message (for a 400) when no route is given or there are more than
+ * `MAX_ROUTES_PER_REQUEST`.
+ */
+export function parseRouteTagsParam(value: QueryValue): { routeTags: string[] } | { error: string } {
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    const tags = values.flatMap((v) => v.split(',')).map((t) => t.trim()).filter((t) => t.length > 0);
+    const routeTags = [...new Set(tags)];
+
+    if (routeTags.length === 0) return { error: 'Missing route (e.g. ?route=501 or ?route=501,504)' };
+    if (routeTags.length > MAX_ROUTES_PER_REQUEST) return { error: `Too many routes (max ${MAX_ROUTES_PER_REQUEST})` };
+    return { routeTags };
+}
+
+/** Wait `ms`, or less if `signal` aborts first (the promise still resolves). */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) return resolve();
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
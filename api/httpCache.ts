@@ -0,0 +1,57 @@
+import { createHash } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+/**
+ * HTTP caching helpers: validators (`ETag`, `Last-Modified`), `304 Not Modified` handling and
+ * `Cache-Control` for responses a CDN may share between clients.
+ */
+
+export type CachePolicy = {
+    /** How long a shared cache (the CDN) may serve the response without revalidating. */
+    sMaxAgeSec: number;
+    /** How long a shared cache may keep serving it while revalidating in the background. */
+    staleWhileRevalidateSec: number;
+};
+
+/**
+ * Strong ETag for a serialized body.
+ */
+export function contentEtag(body: string): string {
+    return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+function firstHeader(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+// `If-None-Match` uses weak comparison: `W/"x"` matches `"x"`.
+function stripWeak(tag: string): string {
+    return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * Whether the request's `If-None-Match` matches `etag`, i.e. the client already has this body.
+ *
+ * `If-Modified-Since` is ignored: `Last-Modified` is when the vehicle data was fetched, not
+ * when this body last changed, so a date match can't prove the client's copy is current.
+ */
+export function isNotModified(req: VercelRequest, etag: string): boolean {
+    const ifNoneMatch = firstHeader(req.headers['if-none-match']);
+    if (ifNoneMatch === undefined) return false;
+    if (ifNoneMatch.trim() === '*') return true;
+    const target = stripWeak(etag);
+    return ifNoneMatch.split(',').some((tag) => stripWeak(tag.trim()) === target);
+}
+
+/**
+ * Set validators and `Cache-Control`. Browsers always revalidate (`max-age=0`), so a poll
+ * either gets a cheap 304 or new data; the CDN absorbs repeat polls for `sMaxAgeSec`.
+ */
+export function setCacheHeaders(res: VercelResponse, etag: string, lastModifiedMs: number, policy: CachePolicy): void {
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', new Date(lastModifiedMs).toUTCString());
+    res.setHeader(
+        'Cache-Control',
+        `public, max-age=0, s-maxage=${policy.sMaxAgeSec}, stale-while-revalidate=${policy.staleWhileRevalidateSec}`
+    );
+}
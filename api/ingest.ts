@@ -0,0 +1,388 @@
+import { XMLParser } from 'fast-xml-parser';
+
+/**
+ * Shared TTC feed ingestion.
+ *
+ * Both the serverless handler (`api/ttc.ts`) and the caching script (`scripts/cache-speeds.ts`)
+ * consume this module so the web app and archived datasets use the same speed definition.
+ */
+
+const DEFAULT_PUBLIC_XML_FEED_URL = 'https://webservices.umoiq.com/service/publicXMLFeed';
+
+// `TTC_PUBLIC_XML_FEED_URL` points every feed request at another `publicXMLFeed`, e.g. the
+// local mock feed (`npm run mock-feed`). Read once, when the module loads.
+const PUBLIC_XML_FEED_URL = (process.env.TTC_PUBLIC_XML_FEED_URL ?? '').trim() || DEFAULT_PUBLIC_XML_FEED_URL;
+
+export const VEHICLE_LOCATIONS_URL = `${PUBLIC_XML_FEED_URL}?command=vehicleLocations&a=ttc`;
+export const ROUTE_LIST_URL = `${PUBLIC_XML_FEED_URL}?command=routeList&a=ttc`;
+export const ROUTE_CONFIG_URL = `${PUBLIC_XML_FEED_URL}?command=routeConfig&a=ttc`;
+
+/**
+ * Where a vehicle's `speedKmh` came from:
+ * - `reported`: the feed's own speed field
+ * - `derived`: computed from the vehicle's last two position fixes (see `./positions`)
+ */
+export type SpeedSource = 'reported' | 'derived';
+
+/**
+ * One vehicle as reported by the `vehicleLocations` feed, normalized.
+ *
+ * Fields the feed omits (or reports in an unusable form) are `null` rather than throwing,
+ * so a single odd vehicle never breaks a whole poll.
+ */
+export type VehicleObservation = {
+    vehicleId: string | null;
+    routeTag: string;
+    dirTag: string | null;
+    lat: number | null;
+    lon: number | null;
+    heading: number | null;
+    speedKmh: number | null;
+    /** `null` exactly when `speedKmh` is `null`. */
+    speedSource: SpeedSource | null;
+    secsSinceReport: number | null;
+    predictable: boolean | null;
+};
+
+/**
+ * Per-route aggregation statistic over vehicle speeds:
+ * - `mean`: simple arithmetic mean (the historical definition; used for 24h history and archives)
+ * - `median`: middle value (mean of the two middle values for an even count)
+ * - `trimmed`: mean after dropping the slowest and fastest `TRIM_FRACTION` of vehicles (at least
+ *   one from each end once there are 3 or more, see `trimCount`)
+ * - `moving`: mean over moving vehicles only (speed > 0); `0` if every vehicle is stopped
+ */
+export type AggregationStat = 'mean' | 'median' | 'trimmed' | 'moving';
+
+export const AGGREGATION_STATS: readonly AggregationStat[] = ['mean', 'median', 'trimmed', 'moving'];
+
+export function isAggregationStat(value: unknown): value is AggregationStat {
+    return typeof value === 'string' && (AGGREGATION_STATS as readonly string[]).includes(value);
+}
+
+export type RouteAggregate = {
+    routeTag: string;
+    /** Route speed under the requested `AggregationStat`. */
+    speedKmh: number;
+    /** Arithmetic mean, regardless of the requested statistic. */
+    meanSpeedKmh: number;
+    vehicleCount: number;
+    /** Samples taken from the feed's own speed field. */
+    reportedSampleCount: number;
+    /** Samples computed from successive position fixes. */
+    derivedSampleCount: number;
+};
+
+export function asArray<T>(value: T | T[] | null | undefined): T[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+export function createFeedParser(): XMLParser {
+    return new XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: '@_',
+    });
+}
+
+/**
+ * Parse and validate TTC/UmoIQ `speedKmHr` values.
+ *
+ * Rule (Iteration 6):
+ * - Missing/empty/non-numeric values are invalid and ignored.
+ * - Negative values are invalid and ignored.
+ * - 0 is considered a valid speed (stopped vehicle) and is included in averages.
+ *
+ * This keeps aggregates deterministic and prevents `NaN`/`Infinity` from propagating.
+ */
+export function parseSpeedKmh(value: unknown): number | null {
+    if (value === null || value === undefined) return null;
+    const raw = String(value).trim();
+    if (raw.length === 0) return null;
+
+    const n = Number(raw);
+    if (!Number.isFinite(n)) return null;
+    if (n < 0) return null;
+
+    return n;
+}
+
+function parseFiniteNumber(value: unknown): number | null {
+    if (value === null || value === undefined) return null;
+    const raw = String(value).trim();
+    if (raw.length === 0) return null;
+
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : null;
+}
+
+/** A trimmed string (or number) attribute, or `null` when missing or blank. */
+export function parseNonEmptyString(value: unknown): string | null {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const raw = String(value).trim();
+    return raw.length > 0 ? raw : null;
+}
+
+function parsePredictable(value: unknown): boolean | null {
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+    return null;
+}
+
+/**
+ * `vehicleLocations` URL for an incremental poll: with `t=<lastTime>` the feed only returns
+ * vehicles that reported since that time (epoch ms, from the previous response's `lastTime`).
+ */
+export function vehicleLocationsSinceUrl(lastTimeMs: number, url: string = VEHICLE_LOCATIONS_URL): string {
+    return `${url}&t=${lastTimeMs}`;
+}
+
+/**
+ * Read `<lastTime time="..."/>` from a parsed `vehicleLocations` payload (`null` if missing).
+ */
+export function parseVehicleLocationsLastTime(json: unknown): number | null {
+    const body = (json as { body?: { lastTime?: unknown } } | null | undefined)?.body;
+    const lastTime = asArray(body?.lastTime as Record<string, unknown> | Record<string, unknown>[] | undefined)[0];
+    return lastTime ? parseFiniteNumber(lastTime['@_time']) : null;
+}
+
+/**
+ * Turn a parsed `vehicleLocations` payload into normalized vehicle observations.
+ *
+ * Feed shape guard:
+ * - `body.vehicle` may be an array OR a single object depending on how many vehicles exist.
+ * - It may also be missing entirely if the feed is empty or changes shape.
+ * - Vehicles without a route tag are skipped rather than throwing.
+ */
+export function parseVehicleLocations(json: unknown): VehicleObservation[] {
+    const body = (json as { body?: { vehicle?: unknown } } | null | undefined)?.body;
+    const vehicles = asArray(body?.vehicle as Record<string, unknown> | Record<string, unknown>[] | undefined);
+
+    const out: VehicleObservation[] = [];
+    for (const vehicle of vehicles) {
+        if (!vehicle || typeof vehicle !== 'object') continue;
+        const routeTag = vehicle['@_routeTag'];
+        if (typeof routeTag !== 'string' || routeTag.length === 0) continue;
+
+        const speedKmh = parseSpeedKmh(vehicle['@_speedKmHr']);
+        out.push({
+            vehicleId: parseNonEmptyString(vehicle['@_id']),
+            routeTag,
+            dirTag: parseNonEmptyString(vehicle['@_dirTag']),
+            lat: parseFiniteNumber(vehicle['@_lat']),
+            lon: parseFiniteNumber(vehicle['@_lon']),
+            heading: parseFiniteNumber(vehicle['@_heading']),
+            speedKmh,
+            speedSource: speedKmh === null ? null : 'reported',
+            secsSinceReport: parseFiniteNumber(vehicle['@_secsSinceReport']),
+            predictable: parsePredictable(vehicle['@_predictable']),
+        });
+    }
+    return out;
+}
+
+// Fraction of vehicles dropped from *each* end for the `trimmed` statistic.
+const TRIM_FRACTION = 0.1;
+// Smallest count that still leaves a vehicle after trimming one from each end.
+const MIN_TRIM_COUNT = 3;
+
+/** Round to the displayed 0.1 km/h. Every view rounds through this, so they agree. */
+export function round1(n: number): number {
+    return parseFloat(n.toFixed(1));
+}
+
+function mean(values: number[]): number {
+    let total = 0;
+    for (const v of values) total += v;
+    return total / values.length;
+}
+
+/**
+ * Vehicles to drop from each end for `trimmed`: `TRIM_FRACTION` rounded to the nearest count,
+ * but at least one from 3 vehicles up. Most routes have fewer than 10 vehicles, and a plain
+ * floor would trim nothing there (a single 60 km/h outlier would still count).
+ */
+function trimCount(n: number): number {
+    if (n < MIN_TRIM_COUNT) return 0;
+    return Math.max(1, Math.round(n * TRIM_FRACTION));
+}
+
+/**
+ * Compute `stat` over a non-empty list of speeds (km/h).
+ */
+export function computeSpeedStat(speeds: number[], stat: AggregationStat): number {
+    const sorted = [...speeds].sort((a, b) => a - b);
+    switch (stat) {
+        case 'mean':
+            return mean(sorted);
+        case 'median': {
+            const mid = Math.floor(sorted.length / 2);
+            return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+        }
+        case 'trimmed': {
+            const trim = trimCount(sorted.length);
+            return mean(sorted.slice(trim, sorted.length - trim));
+        }
+        case 'moving': {
+            const moving = sorted.filter((v) => v > 0);
+            return moving.length > 0 ? mean(moving) : 0;
+        }
+    }
+}
+
+/**
+ * Aggregate vehicle observations into per-route speeds.
+ *
+ * Speed definition:
+ * - Source: TTC/UmoIQ (NextBus) `vehicleLocations` feed attribute `speedKmHr`
+ * - Units: km/h (instantaneous per-vehicle speed as reported in the feed)
+ * - Per-route speed is the *simple arithmetic mean* of valid `speedKmHr` samples
+ *   across active vehicles on that route by default (see `AggregationStat` for the
+ *   alternatives). See `parseSpeedKmh(...)` for validation rules.
+ * - Vehicles whose speed was derived from position fixes (`speedSource: 'derived'`) count as
+ *   samples too; the split is reported via `reportedSampleCount` / `derivedSampleCount`.
+ * - Routes with no valid samples are omitted (never `NaN`).
+ *
+ * Results are sorted deterministically to reduce UI jitter:
+ * - Primary: speed (desc)
+ * - Secondary: routeTag (asc, numeric-aware)
+ */
+export function aggregateRouteSpeeds(
+    observations: VehicleObservation[],
+    stat: AggregationStat = 'mean'
+): RouteAggregate[] {
+    const byRoute = new Map<string, { speeds: number[]; derived: number }>();
+
+    for (const o of observations) {
+        if (o.speedKmh === null) continue;
+        const r = byRoute.get(o.routeTag) ?? { speeds: [], derived: 0 };
+        r.speeds.push(o.speedKmh);
+        if (o.speedSource === 'derived') r.derived += 1;
+        byRoute.set(o.routeTag, r);
+    }
+
+    const out: RouteAggregate[] = [];
+    for (const [routeTag, r] of byRoute) {
+        if (r.speeds.length <= 0) continue;
+        out.push({
+            routeTag,
+            speedKmh: round1(computeSpeedStat(r.speeds, stat)),
+            meanSpeedKmh: round1(mean(r.speeds)),
+            vehicleCount: r.speeds.length,
+            reportedSampleCount: r.speeds.length - r.derived,
+            derivedSampleCount: r.derived,
+        });
+    }
+
+    out.sort((a, b) => {
+        const speedDiff = b.speedKmh - a.speedKmh;
+        if (speedDiff !== 0) return speedDiff;
+        return a.routeTag.localeCompare(b.routeTag, undefined, { numeric: true });
+    });
+    return out;
+}
+
+export type DirectionAggregate = {
+    dirTag: string;
+    speedKmh: number;
+    vehicleCount: number;
+};
+
+/**
+ * Aggregate vehicle observations into per-direction speeds, grouped by route.
+ *
+ * Same speed definition and `stat` as `aggregateRouteSpeeds(...)`, split by the vehicle's
+ * `dirTag`. Vehicles without a `dirTag` still count toward the route but not toward any
+ * direction. Directions are sorted by vehicle count (desc), then `dirTag` (asc).
+ */
+export function aggregateDirectionSpeeds(
+    observations: VehicleObservation[],
+    stat: AggregationStat = 'mean'
+): Record<string, DirectionAggregate[]> {
+    const byRoute = new Map<string, Map<string, number[]>>();
+
+    for (const o of observations) {
+        if (o.speedKmh === null || o.dirTag === null) continue;
+        const dirs = byRoute.get(o.routeTag) ?? new Map<string, number[]>();
+        const speeds = dirs.get(o.dirTag) ?? [];
+        speeds.push(o.speedKmh);
+        dirs.set(o.dirTag, speeds);
+        byRoute.set(o.routeTag, dirs);
+    }
+
+    const out: Record<string, DirectionAggregate[]> = {};
+    for (const [routeTag, dirs] of byRoute) {
+        const directions: DirectionAggregate[] = [];
+        for (const [dirTag, speeds] of dirs) {
+            directions.push({
+                dirTag,
+                speedKmh: round1(computeSpeedStat(speeds, stat)),
+                vehicleCount: speeds.length,
+            });
+        }
+        directions.sort((a, b) => b.vehicleCount - a.vehicleCount || a.dirTag.localeCompare(b.dirTag));
+        out[routeTag] = directions;
+    }
+    return out;
+}
+
+type RouteTitlesCache = {
+    expiresAtMs: number;
+    titlesByRouteTag: Record<string, string>;
+};
+
+let routeTitlesCache: RouteTitlesCache | null = null;
+const ROUTE_TITLES_TTL_MS = 60 * 60 * 1000; // 1 hour
+const ROUTE_TITLES_FAILURE_TTL_MS = 10 * 60 * 1000; // retry a failed fetch after 10 minutes
+
+/** Route metadata (`routeList`, `routeConfig`) is optional, so don't let a hung request stall a response. */
+export const METADATA_FETCH_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * Fetch TTC route titles (tag -> title) from NextBus/UmoIQ route metadata.
+ *
+ * Endpoint: `command=routeList&a=ttc`
+ *
+ * Notes:
+ * - This is best-effort: if metadata fetch fails (or takes longer than
+ *   `METADATA_FETCH_TIMEOUT_MS`), we log a warning and return the last cached value (if any) or
+ *   `{}`. The failure is cached too, so the next attempt waits `ROUTE_TITLES_FAILURE_TTL_MS`.
+ * - Titles are *not* hardcoded; callers should fall back gracefully if a title is missing.
+ */
+export async function getRouteTitlesByTag(parser: XMLParser): Promise<Record<string, string>> {
+    const now = Date.now();
+    if (routeTitlesCache && now < routeTitlesCache.expiresAtMs) {
+        return routeTitlesCache.titlesByRouteTag;
+    }
+
+    try {
+        const resp = await fetch(ROUTE_LIST_URL, { signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS) });
+        if (!resp.ok) {
+            throw new Error(`Failed to fetch routeList (${resp.status})`);
+        }
+
+        const xml = await resp.text();
+        const json = parser.parse(xml);
+
+        // Feed shape guard: `body.route` may be an array OR a single object.
+        const routes = asArray<Record<string, unknown>>(json?.body?.route);
+        const titlesByRouteTag: Record<string, string> = {};
+
+        for (const route of routes) {
+            const tag = route['@_tag'];
+            const title = route['@_title'];
+            if (typeof tag !== 'string' || tag.length === 0) continue;
+            if (typeof title !== 'string' || title.length === 0) continue;
+            titlesByRouteTag[tag] = title;
+        }
+
+        routeTitlesCache = { expiresAtMs: now + ROUTE_TITLES_TTL_MS, titlesByRouteTag };
+        return titlesByRouteTag;
+    } catch (error) {
+        // Degrade gracefully: keep serving live speeds even if route titles cannot be fetched.
+        console.warn('Error fetching route titles, continuing without them:', error);
+        const titlesByRouteTag = routeTitlesCache?.titlesByRouteTag ?? {};
+        routeTitlesCache = { expiresAtMs: now + ROUTE_TITLES_FAILURE_TTL_MS, titlesByRouteTag };
+        return titlesByRouteTag;
+    }
+}
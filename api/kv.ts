@@ -1,3 +1,6 @@
+import * as path from 'path';
+import { createFileKvClient, createMemoryKvClient } from './storage';
+
 type KvEnv = {
     url: string;
     token: string;
@@ -20,17 +23,142 @@ export function getKvEnv(): KvEnv | null {
     return { url, token };
 }
 
+export type StorageBackend = 'vercel-kv' | 'memory' | 'file';
+
+const DEFAULT_STORAGE_DIR = path.join(process.cwd(), '.data', 'ttc-kv');
+
+// Local backends hold their state in the client, so reuse one per process.
+let localClient: { backend: StorageBackend; client: KvClient } | null = null;
+
+/**
+ * Which storage backend to use for averages/history, from `TTC_STORAGE_BACKEND`.
+ *
+ * - unset: `vercel-kv` when the KV env vars are present, otherwise none (`null`)
+ * - `vercel-kv` | `memory` | `file` (`TTC_STORAGE_DIR`, default `.data/ttc-kv/`)
+ * - `none`: disable persistence explicitly
+ */
+export function getStorageBackend(): StorageBackend | null {
+    const kind = (process.env.TTC_STORAGE_BACKEND ?? '').trim().toLowerCase();
+    if (!kind) return getKvEnv() ? 'vercel-kv' : null;
+    if (kind === 'none') return null;
+    if (kind === 'vercel-kv' || kind === 'memory' || kind === 'file') return kind;
+    throw new Error(`Unknown TTC_STORAGE_BACKEND: ${kind}`);
+}
+
 /**
- * Get a KV client if configured; otherwise return `null`.
+ * Get a KV client for the configured storage backend; otherwise return `null`.
  *
  * This avoids module initialization errors in environments where KV env vars
  * aren't set, while still allowing the rest of the API to function.
  */
-export async function getKvClient() {
-    const env = getKvEnv();
-    if (!env) return null;
+export async function getKvClient(): Promise<KvClient | null> {
+    const backend = getStorageBackend();
+    if (!backend) return null;
+
+    if (backend === 'vercel-kv') {
+        const env = getKvEnv();
+        if (!env) throw new Error('TTC_STORAGE_BACKEND=vercel-kv requires KV_REST_API_URL and KV_REST_API_TOKEN');
+
+        const { createClient } = await import('@vercel/kv');
+        return createClient({ url: env.url, token: env.token });
+    }
+
+    if (localClient?.backend !== backend) {
+        const dir = (process.env.TTC_STORAGE_DIR ?? '').trim() || DEFAULT_STORAGE_DIR;
+        const client = backend === 'memory' ? createMemoryKvClient() : createFileKvClient(dir);
+        localClient = { backend, client };
+    }
+    return localClient.client;
+}
+
+export type KvPipeline = {
+    set: (key: string, value: string, opts?: KvSetOptions) => KvPipeline;
+    del: (key: string) => KvPipeline;
+    exec: () => Promise<unknown>;
+};
+
+/**
+ * Expiry (`PX ms`), optionally set-if-not-exists (`NX`, used for atomic claims).
+ *
+ * With `nx`, `set` resolves to `null` when the key already exists and nothing was written.
+ */
+export type KvSetOptions = { px: number } | { nx: true; px: number };
 
-    const { createClient } = await import('@vercel/kv');
-    return createClient({ url: env.url, token: env.token });
+/**
+ * Minimal KV surface used by the averaging modules.
+ *
+ * Declared locally (rather than importing `@vercel/kv` types) so callers can pass any client
+ * with these methods.
+ */
+export type KvClient = {
+    get: (key: string) => Promise<unknown>;
+    mget: (...keys: string[]) => Promise<unknown[]>;
+    set: (key: string, value: string, opts?: KvSetOptions) => Promise<unknown>;
+    del: (key: string) => Promise<unknown>;
+    pipeline?: () => KvPipeline;
+};
+
+// Serverless safeguard: chunk KV multi-gets and pipeline writes to avoid large request
+// payloads / URL length limits.
+const KV_MGET_CHUNK_SIZE = 100;
+const KV_SET_OPS_PER_PIPELINE = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+    if (size <= 0) return [items];
+    const out: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        out.push(items.slice(i, i + size));
+    }
+    return out;
 }
 
+export async function mgetChunked(client: KvClient, keys: string[]): Promise<unknown[]> {
+    if (keys.length === 0) return [];
+    const out: unknown[] = [];
+    for (const part of chunk(keys, KV_MGET_CHUNK_SIZE)) {
+        const values = (await client.mget(...part)) as unknown[];
+        out.push(...values);
+    }
+    return out;
+}
+
+export async function setManyChunked(
+    client: KvClient,
+    kvSets: Array<[string, string]>,
+    opts?: { px: number }
+): Promise<void> {
+    if (kvSets.length === 0) return;
+
+    const pipelineFactory = typeof client.pipeline === 'function' ? client.pipeline : null;
+    if (pipelineFactory) {
+        for (const part of chunk(kvSets, KV_SET_OPS_PER_PIPELINE)) {
+            const p = pipelineFactory.call(client);
+            for (const [k, v] of part) p.set(k, v, opts);
+            await p.exec();
+        }
+        return;
+    }
+
+    // Limit concurrency by chunking to avoid overwhelming the runtime/network.
+    for (const part of chunk(kvSets, KV_SET_OPS_PER_PIPELINE)) {
+        await Promise.all(part.map(([k, v]) => client.set(k, v, opts)));
+    }
+}
+
+export async function delManyChunked(client: KvClient, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const pipelineFactory = typeof client.pipeline === 'function' ? client.pipeline : null;
+    if (pipelineFactory) {
+        for (const part of chunk(keys, KV_SET_OPS_PER_PIPELINE)) {
+            const p = pipelineFactory.call(client);
+            for (const k of part) p.del(k);
+            await p.exec();
+        }
+        return;
+    }
+
+    for (const part of chunk(keys, KV_SET_OPS_PER_PIPELINE)) {
+        await Promise.all(part.map((k) => client.del(k)));
+    }
+}
@@ -0,0 +1,221 @@
+import type { LiveRouteSample } from './avg24h';
+import { contentEtag } from './httpCache';
+import type { ExclusionCounts } from './exclusions';
+import { isAggregationStat, type AggregationStat } from './ingest';
+import { getKvClient, type KvClient } from './kv';
+import { collectLiveRouteSpeeds, type DirectionSpeed } from './pipeline';
+import type { ServiceCategory, TransitMode } from './routeClasses';
+import { getRollingAveragesByRouteTag, type RollingAverages } from './rollups';
+import { isPlaybackSource } from './sources';
+
+/**
+ * The leaderboard payload served by `/api/ttc` (one poll) and `/api/stream` (SSE).
+ */
+
+export type LiveRouteSpeed = {
+    routeTag: string;
+    routeTitle: string | null;
+    /** Classified from route metadata and the override table (see `./routeClasses`). */
+    mode: TransitMode;
+    serviceCategory: ServiceCategory;
+    liveSpeedKmh: number;
+    /** Statistic used for `liveSpeedKmh` (the `aggregation` query parameter, default `mean`). */
+    liveSpeedStat: AggregationStat;
+    /**
+     * Whether rolling averages (1h/24h/7d/30d) are available for this response.
+     *
+     * If persistence (`TTC_STORAGE_BACKEND` or Vercel KV) is not configured, KV calls fail or the
+     * source is a replay, this will be `false` and every `avg*SpeedKmh` field will be `null`
+     * (live speeds still return).
+     */
+    avg24hAvailable: boolean;
+    avg1hSpeedKmh: number | null;
+    avg24hSpeedKmh: number | null;
+    /** 7d/30d averages combine hourly rollups with the current hour's minute samples. */
+    avg7dSpeedKmh: number | null;
+    avg30dSpeedKmh: number | null;
+    vehicleCount: number;
+    /** Vehicles whose speed came from the feed's own speed field. */
+    reportedSampleCount: number;
+    /**
+     * Vehicles whose speed was derived from their last two position fixes because the feed
+     * reported no speed (or a stale 0). `vehicleCount = reportedSampleCount + derivedSampleCount`.
+     */
+    derivedSampleCount: number;
+    /**
+     * Vehicles on this route left out of `liveSpeedKmh` (stale reports, `predictable="false"`,
+     * or laying over at a terminal). Not included in `vehicleCount`.
+     */
+    excludedVehicleCounts: ExclusionCounts;
+    /**
+     * Per-direction breakdown (by vehicle `dirTag`), using the same statistic as `liveSpeedKmh`.
+     * Vehicles without a `dirTag` are only counted at the route level.
+     */
+    directions: DirectionSpeed[];
+    updatedAt: string; // ISO string
+};
+
+export type LeaderboardFrame = {
+    builtAtMs: number;
+    /** Upstream fetch time of the vehicle data (every route's `updatedAt`). */
+    updatedAtMs: number;
+    routes: LiveRouteSpeed[];
+    /** Strong validator for the serialized `routes`. */
+    etag: string;
+};
+
+/** Routes whose displayed values changed since a previous frame, and routes that disappeared. */
+export type LeaderboardDelta = {
+    changed: LiveRouteSpeed[];
+    removed: string[];
+};
+
+// Every open tab hits `/api/ttc` or a stream tick about once per second; build the payload at
+// most once per interval per statistic and share it (including the in-flight build).
+const LEADERBOARD_TTL_MS = 1000;
+const leaderboardCache = new Map<AggregationStat, { builtAtMs: number; frame: Promise<LeaderboardFrame> }>();
+
+// Averages move on a minute scale (one sample per minute bucket), so they are refreshed on a
+// slower tick than the live speeds and shared across statistics. This keeps the per-second
+// builds of every open stream from hitting KV each time.
+const AVERAGES_TTL_MS = 10 * 1000;
+let averagesCache: { computedAtMs: number; averagesByRouteTag: Record<string, RollingAverages> } | null = null;
+
+async function getCachedRollingAverages(
+    kv: KvClient,
+    samples: LiveRouteSample[],
+    nowMs: number
+): Promise<Record<string, RollingAverages>> {
+    const cached = averagesCache;
+    if (
+        cached &&
+        nowMs >= cached.computedAtMs &&
+        nowMs - cached.computedAtMs < AVERAGES_TTL_MS &&
+        samples.every((s) => s.routeTag in cached.averagesByRouteTag)
+    ) {
+        return cached.averagesByRouteTag;
+    }
+    const averagesByRouteTag = await getRollingAveragesByRouteTag(kv, samples, nowMs);
+    averagesCache = { computedAtMs: nowMs, averagesByRouteTag };
+    return averagesByRouteTag;
+}
+
+/**
+ * Read the `aggregation` query parameter (`mean` | `median` | `trimmed` | `moving`).
+ *
+ * Returns `null` for an unknown value so the handler can reply 400 instead of silently
+ * serving a different statistic.
+ */
+export function parseAggregationParam(value: string | string[] | undefined): AggregationStat | null {
+    const raw = Array.isArray(value) ? value[0] : value;
+    if (raw === undefined || raw.trim().length === 0) return 'mean';
+    const normalized = raw.trim().toLowerCase();
+    return isAggregationStat(normalized) ? normalized : null;
+}
+
+async function buildLeaderboard(nowMs: number, stat: AggregationStat): Promise<LeaderboardFrame> {
+    // Shared pipeline: configured source -> derived speeds -> exclusion rules -> per-route speeds.
+    const { fetchedAtMs, routes: liveRoutes } = await collectLiveRouteSpeeds(nowMs, stat);
+
+    // Stamped with the upstream fetch time (not the request time) so the payload, and its
+    // ETag, only change when the data does.
+    const updatedAt = new Date(fetchedAtMs).toISOString();
+    const baseRoutes = liveRoutes.map((a) => ({
+        routeTag: a.routeTag,
+        routeTitle: a.routeTitle,
+        mode: a.mode,
+        serviceCategory: a.serviceCategory,
+        liveSpeedKmh: a.speedKmh,
+        liveSpeedStat: stat,
+        vehicleCount: a.vehicleCount,
+        reportedSampleCount: a.reportedSampleCount,
+        derivedSampleCount: a.derivedSampleCount,
+        excludedVehicleCounts: a.excludedVehicleCounts,
+        directions: a.directions,
+        updatedAt,
+    }));
+
+    let avg24hAvailable = false;
+    let averagesByRouteTag: Record<string, RollingAverages> = {};
+    try {
+        // Replayed speeds would be sampled into history at wall-clock time.
+        const kv = isPlaybackSource() ? null : await getKvClient();
+        if (kv) {
+            avg24hAvailable = true;
+            // History always records the arithmetic mean so the averages mean the same
+            // thing no matter which statistic a client asked for.
+            const samples: LiveRouteSample[] = liveRoutes.map((r) => ({
+                routeTag: r.routeTag,
+                liveSpeedKmh: r.meanSpeedKmh,
+            }));
+            averagesByRouteTag = await getCachedRollingAverages(kv, samples, nowMs);
+        }
+    } catch {
+        // Degrade gracefully if KV is misconfigured/unavailable or the KV call fails.
+        avg24hAvailable = false;
+        averagesByRouteTag = {};
+    }
+
+    const routes: LiveRouteSpeed[] = baseRoutes.map((r) => {
+        const averages = avg24hAvailable ? averagesByRouteTag[r.routeTag] : undefined;
+        return {
+            ...r,
+            avg24hAvailable,
+            avg1hSpeedKmh: averages?.avg1hSpeedKmh ?? null,
+            avg24hSpeedKmh: averages?.avg24hSpeedKmh ?? null,
+            avg7dSpeedKmh: averages?.avg7dSpeedKmh ?? null,
+            avg30dSpeedKmh: averages?.avg30dSpeedKmh ?? null,
+        };
+    });
+
+    return { builtAtMs: nowMs, updatedAtMs: fetchedAtMs, routes, etag: contentEtag(JSON.stringify(routes)) };
+}
+
+/**
+ * Live per-route speeds plus rolling averages, shared for `LEADERBOARD_TTL_MS` per statistic.
+ */
+export function getLeaderboardFrame(nowMs: number, stat: AggregationStat): Promise<LeaderboardFrame> {
+    const cached = leaderboardCache.get(stat);
+    if (cached && nowMs - cached.builtAtMs < LEADERBOARD_TTL_MS) return cached.frame;
+
+    const frame = buildLeaderboard(nowMs, stat);
+    leaderboardCache.set(stat, { builtAtMs: nowMs, frame });
+    // Don't keep serving a failed build.
+    frame.catch(() => {
+        if (leaderboardCache.get(stat)?.frame === frame) leaderboardCache.delete(stat);
+    });
+    return frame;
+}
+
+// Speeds and averages are already rounded to the displayed 0.1 km/h, so comparing them as-is
+// compares what the UI shows (`updatedAt` and sample counts are deliberately left out).
+function displaySignature(r: LiveRouteSpeed): string {
+    return JSON.stringify([
+        r.routeTitle,
+        r.mode,
+        r.serviceCategory,
+        r.liveSpeedKmh,
+        r.avg24hAvailable,
+        r.avg1hSpeedKmh,
+        r.avg24hSpeedKmh,
+        r.avg7dSpeedKmh,
+        r.avg30dSpeedKmh,
+        r.directions.map((d) => [d.dirTag, d.dirTitle, d.speedKmh, d.vehicleCount]),
+    ]);
+}
+
+/**
+ * Routes in `next` whose displayed speed, title, mode/category, averages or direction rows differ from
+ * `prev` (or that are new), plus the tags of routes in `prev` that are gone.
+ */
+export function diffLeaderboard(prev: LiveRouteSpeed[], next: LiveRouteSpeed[]): LeaderboardDelta {
+    const prevByTag = new Map(prev.map((r) => [r.routeTag, r]));
+    const nextTags = new Set(next.map((r) => r.routeTag));
+
+    const changed = next.filter((r) => {
+        const before = prevByTag.get(r.routeTag);
+        return !before || displaySignature(before) !== displaySignature(r);
+    });
+    const removed = prev.filter((r) => !nextTags.has(r.routeTag)).map((r) => r.routeTag);
+    return { changed, removed };
+}
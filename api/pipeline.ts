@@ -0,0 +1,120 @@
+import {
+    applyExclusionRules,
+    emptyExclusionCounts,
+    getExclusionRules,
+    type ExcludedObservation,
+    type ExclusionCounts,
+} from './exclusions';
+import {
+    aggregateDirectionSpeeds,
+    aggregateRouteSpeeds,
+    createFeedParser,
+    getRouteTitlesByTag,
+    type AggregationStat,
+    type RouteAggregate,
+    type VehicleObservation,
+} from './ingest';
+import { vehicleFixTracker } from './positions';
+import { classifyRoute, type TransitMode, type ServiceCategory } from './routeClasses';
+import { getRouteConfigs, type RouteConfig, type RouteStop } from './routeConfig';
+import { fetchSnapshotVehicles } from './snapshot';
+import { getVehicleSource } from './sources';
+
+/**
+ * The live per-route speed pipeline shared by `api/ttc.ts` and `scripts/cache-speeds.ts`:
+ *
+ * 1. fetch vehicles from the configured source (`./sources`), through the shared short-lived
+ *    snapshot (`./snapshot`) so concurrent requests reuse one upstream fetch
+ * 2. fill missing/zero speeds from successive position fixes (`./positions`)
+ * 3. drop stale, non-predictable and layover vehicles (`./exclusions`)
+ * 4. aggregate per route and per direction (`./ingest`) and attach route/direction titles
+ *    and each route's mode and service category (`./routeClasses`)
+ */
+
+export type DirectionSpeed = {
+    dirTag: string;
+    /** Direction title from `routeConfig` (e.g. "East - 501 Queen towards Neville Park"), if known. */
+    dirTitle: string | null;
+    speedKmh: number;
+    vehicleCount: number;
+};
+
+export type LiveRouteAggregate = RouteAggregate & {
+    routeTitle: string | null;
+    mode: TransitMode;
+    serviceCategory: ServiceCategory;
+    /** Vehicles on this route left out of the average, by reason. */
+    excludedVehicleCounts: ExclusionCounts;
+    directions: DirectionSpeed[];
+};
+
+export type LiveSnapshot = {
+    /** When the vehicle data was fetched upstream (the shared snapshot may be a few seconds old). */
+    fetchedAtMs: number;
+    /** Observations as the vehicle source reported them, before speed derivation. */
+    reportedObservations: VehicleObservation[];
+    /** All observations after speed derivation (including excluded vehicles). */
+    observations: VehicleObservation[];
+    /** Observations that were left out of the averages, with the rule that excluded them. */
+    excluded: ExcludedObservation[];
+    routes: LiveRouteAggregate[];
+    routeTitlesByTag: Record<string, string>;
+    /** `routeConfig` metadata for routes seen in this snapshot (best-effort; may be partial). */
+    routeConfigsByTag: Record<string, RouteConfig>;
+};
+
+export function getDirectionTitle(config: RouteConfig | undefined, dirTag: string): string | null {
+    const direction = config?.directions.find((d) => d.tag === dirTag);
+    return direction?.title ?? direction?.name ?? null;
+}
+
+export async function collectLiveRouteSpeeds(
+    nowMs: number,
+    stat: AggregationStat = 'mean'
+): Promise<LiveSnapshot> {
+    const parser = createFeedParser();
+    const source = getVehicleSource();
+    // Replay runs the whole pipeline on its playback clock so report ages and derived speeds
+    // match the recording.
+    const feedNowMs = source.clock?.(nowMs) ?? nowMs;
+    // Replay has to work offline, so it never asks the live feed for route metadata.
+    const playback = source.clock !== undefined;
+    const vehicles = await fetchSnapshotVehicles(source, feedNowMs);
+    const observations = vehicleFixTracker.apply(vehicles.observations, feedNowMs);
+
+    // routeConfig supplies both layover terminals and direction titles.
+    const rules = getExclusionRules();
+    const configs = playback ? {} : await getRouteConfigs(parser, observations.map((o) => o.routeTag));
+    const terminalsByRouteTag: Record<string, RouteStop[]> = {};
+    for (const [tag, config] of Object.entries(configs)) {
+        terminalsByRouteTag[tag] = config.terminals;
+    }
+
+    const { kept, excluded, excludedByRouteTag } = applyExclusionRules(observations, rules, terminalsByRouteTag);
+    const aggregates = aggregateRouteSpeeds(kept, stat);
+    const directionsByRouteTag = aggregateDirectionSpeeds(kept, stat);
+    const routeTitlesByTag = playback ? {} : await getRouteTitlesByTag(parser);
+
+    const routes = aggregates.map((a) => ({
+        ...a,
+        routeTitle: routeTitlesByTag[a.routeTag] ?? null,
+        ...classifyRoute(a.routeTag, routeTitlesByTag[a.routeTag] ?? null, configs[a.routeTag]),
+        excludedVehicleCounts: excludedByRouteTag[a.routeTag] ?? emptyExclusionCounts(),
+        directions: (directionsByRouteTag[a.routeTag] ?? []).map((d) => ({
+            dirTag: d.dirTag,
+            dirTitle: getDirectionTitle(configs[a.routeTag], d.dirTag),
+            speedKmh: d.speedKmh,
+            vehicleCount: d.vehicleCount,
+        })),
+    }));
+
+    return {
+        fetchedAtMs: vehicles.fetchedAtMs,
+        reportedObservations: vehicles.observations,
+        observations,
+        excluded,
+        routes,
+        routeTitlesByTag,
+        routeConfigsByTag: configs,
+    };
+}
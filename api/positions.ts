@@ -0,0 +1,150 @@
+import type { VehicleObservation } from './ingest';
+
+/**
+ * Derived vehicle speeds from successive position fixes.
+ *
+ * Many vehicles report no `speedKmHr` (or a stale `0`). We remember each vehicle's last two
+ * fixes (`lat`/`lon` plus report time from `secsSinceReport`) between polls and compute a
+ * haversine distance / elapsed time speed from them.
+ *
+ * State is held in memory per process: a warm serverless instance or the long-running caching
+ * script accumulates fixes across polls; a cold start simply derives nothing until it has seen
+ * two fixes for a vehicle.
+ */
+
+type VehicleFix = {
+    routeTag: string;
+    lat: number;
+    lon: number;
+    reportedAtMs: number;
+};
+
+type TrackedVehicle = {
+    previous: VehicleFix | null;
+    latest: VehicleFix;
+    lastSeenMs: number;
+};
+
+export type FixTracker = {
+    /**
+     * Record the fixes in `observations` and return them with missing/zero speeds replaced by
+     * derived speeds where possible (`speedSource: 'derived'`).
+     */
+    apply: (observations: VehicleObservation[], nowMs: number) => VehicleObservation[];
+    size: () => number;
+};
+
+const EARTH_RADIUS_M = 6_371_000;
+const MS_PER_SEC = 1000;
+const MPS_TO_KMH = 3.6;
+
+// Guards against meaningless or noisy derivations:
+// - Fixes closer together than MIN_FIX_GAP_MS amplify GPS jitter into large speeds.
+// - Fixes further apart than MAX_FIX_GAP_MS average over too much (layovers, detours).
+// - Displacements under MIN_MOVEMENT_M are GPS jitter of a stationary vehicle (0 km/h).
+// - Anything above MAX_DERIVED_SPEED_KMH is treated as a GPS jump, not movement.
+// - Vehicles unseen for VEHICLE_TTL_MS are forgotten so memory stays bounded.
+const MIN_FIX_GAP_MS = 5 * 1000;
+const MAX_FIX_GAP_MS = 5 * 60 * 1000;
+const MIN_MOVEMENT_M = 15;
+const MAX_DERIVED_SPEED_KMH = 120;
+const VEHICLE_TTL_MS = 10 * 60 * 1000;
+
+function toRadians(deg: number): number {
+    return (deg * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance in metres between two WGS84 coordinates.
+ */
+export function haversineDistanceM(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const dLat = toRadians(lat2 - lat1);
+    const dLon = toRadians(lon2 - lon1);
+    const a =
+        Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function deriveSpeedKmh(previous: VehicleFix, latest: VehicleFix): number | null {
+    if (previous.routeTag !== latest.routeTag) return null;
+
+    const elapsedMs = latest.reportedAtMs - previous.reportedAtMs;
+    if (elapsedMs < MIN_FIX_GAP_MS || elapsedMs > MAX_FIX_GAP_MS) return null;
+
+    const distanceM = haversineDistanceM(previous.lat, previous.lon, latest.lat, latest.lon);
+    if (distanceM < MIN_MOVEMENT_M) return 0;
+
+    const speedKmh = (distanceM / (elapsedMs / MS_PER_SEC)) * MPS_TO_KMH;
+    if (!Number.isFinite(speedKmh) || speedKmh > MAX_DERIVED_SPEED_KMH) return null;
+
+    return parseFloat(speedKmh.toFixed(1));
+}
+
+function toFix(o: VehicleObservation, nowMs: number): VehicleFix | null {
+    if (o.lat === null || o.lon === null) return null;
+    const ageMs = Math.max(0, o.secsSinceReport ?? 0) * MS_PER_SEC;
+    return { routeTag: o.routeTag, lat: o.lat, lon: o.lon, reportedAtMs: nowMs - ageMs };
+}
+
+export function createFixTracker(): FixTracker {
+    const vehicles = new Map<string, TrackedVehicle>();
+
+    function record(vehicleId: string, fix: VehicleFix, nowMs: number): TrackedVehicle {
+        const tracked = vehicles.get(vehicleId);
+        if (!tracked) {
+            const fresh: TrackedVehicle = { previous: null, latest: fix, lastSeenMs: nowMs };
+            vehicles.set(vehicleId, fresh);
+            return fresh;
+        }
+
+        tracked.lastSeenMs = nowMs;
+        // `secsSinceReport` is whole seconds, so the same report can drift by up to ~1s between
+        // polls; only treat it as a new fix once it is clearly newer.
+        if (fix.reportedAtMs - tracked.latest.reportedAtMs >= MS_PER_SEC) {
+            tracked.previous = tracked.latest;
+            tracked.latest = fix;
+        }
+        return tracked;
+    }
+
+    function prune(nowMs: number): void {
+        for (const [id, tracked] of vehicles) {
+            if (nowMs - tracked.lastSeenMs > VEHICLE_TTL_MS) vehicles.delete(id);
+        }
+    }
+
+    return {
+        apply(observations, nowMs) {
+            const out = observations.map((o) => {
+                if (o.vehicleId === null) return o;
+                const fix = toFix(o, nowMs);
+                if (!fix) return o;
+
+                const tracked = record(o.vehicleId, fix, nowMs);
+
+                // Rule: a reported positive speed always wins. Missing or zero speeds are
+                // replaced by a derived speed when the last two fixes show the vehicle moving.
+                if (o.speedKmh !== null && o.speedKmh > 0) return o;
+                if (!tracked.previous) return o;
+
+                const derived = deriveSpeedKmh(tracked.previous, tracked.latest);
+                if (derived === null) return o;
+                if (o.speedKmh === 0 && derived === 0) return o;
+
+                return { ...o, speedKmh: derived, speedSource: 'derived' as const };
+            });
+
+            prune(nowMs);
+            return out;
+        },
+        size() {
+            return vehicles.size;
+        },
+    };
+}
+
+/**
+ * Process-wide tracker shared by the API handler and the caching script.
+ */
+export const vehicleFixTracker = createFixTracker();
@@ -0,0 +1,64 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { parseRouteTagsParam } from './http';
+import { PROFILE_TIME_ZONE, readProfiles, toProfileBuckets, type ProfileBucket } from './hourOfWeek';
+import { getKvClient } from './kv';
+
+type RouteProfile = {
+    routeTag: string;
+    /** 168 buckets, Monday 00:00 first. */
+    buckets: ProfileBucket[];
+    /** Total samples across all buckets (hour-of-week profiles fill in over a week or more). */
+    sampleCount: number;
+};
+
+type ProfilesResponse = {
+    timeZone: string;
+    routes: RouteProfile[];
+    updatedAt: string; // ISO string
+};
+
+/**
+ * Hour-of-week speed profiles (typical speed per hour of the week, Toronto local time).
+ *
+ * `GET /api/profiles?route=501[,504...]`
+ *
+ * Profiles are built incrementally from the hourly rollups of the KV sample history, so they
+ * only cover hours since KV sampling started. Replies 503 if no storage backend is configured.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        const parsed = parseRouteTagsParam(req.query.route);
+        if ('error' in parsed) {
+            return res.status(400).json({ error: parsed.error });
+        }
+        const { routeTags } = parsed;
+
+        const kv = await getKvClient();
+        if (!kv) {
+            return res.status(503).json({ error: 'Profiles unavailable (configure TTC_STORAGE_BACKEND or Vercel KV)' });
+        }
+
+        const profilesByRouteTag = await readProfiles(kv, routeTags);
+
+        const body: ProfilesResponse = {
+            timeZone: PROFILE_TIME_ZONE,
+            routes: routeTags.map((routeTag) => {
+                const buckets = toProfileBuckets(profilesByRouteTag[routeTag]);
+                return {
+                    routeTag,
+                    buckets,
+                    sampleCount: buckets.reduce((acc, b) => acc + b.sampleCount, 0),
+                };
+            }),
+            updatedAt: new Date().toISOString(),
+        };
+
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Content-Type', 'application/json');
+
+        return res.status(200).json(body);
+    } catch (error) {
+        console.error('Error reading speed profiles:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+}
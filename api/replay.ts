@@ -0,0 +1,243 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { archiveDay, listArchiveFiles, type ArchiveFile } from './archive';
+import { createFeedParser, parseVehicleLocations, type VehicleObservation } from './ingest';
+import type { VehicleSource } from './sources';
+import { decodeVehicleArchiveRecord, type VehicleArchiveRecord } from './vehicleArchive';
+
+/**
+ * Replay vehicle source (`TTC_VEHICLE_SOURCE=replay`): serves recorded vehicles as though they
+ * were live, for offline development, demos and reproducing what the feed looked like at a
+ * given time.
+ *
+ * Recordings (in `TTC_REPLAY_DIR`, default `speed-cache/`):
+ * - a raw vehicle archive (`vehicles-YYYY-MM-DD.ndjson[.gz]`, from `cache-speeds --vehicles`), or
+ * - saved `vehicleLocations` XML responses (`*.xml`). The snapshot time is taken from a 10- or
+ *   13-digit epoch in the file name, or else from the response's `<lastTime>`.
+ *
+ * Playback runs on its own clock: feed time starts at `TTC_REPLAY_START` (ISO time; default the
+ * start of the recording) when the process starts and advances `TTC_REPLAY_SPEED` times faster
+ * than wall-clock time (default 1; `60` plays an hour per minute). At the end of the recording
+ * it loops back to the start while feed time keeps moving forward.
+ *
+ * Each request gets the latest recorded poll at or before the current feed time, with report
+ * ages advanced by the time since that poll. Gaps in the recording longer than
+ * `MAX_FRAME_GAP_MS` replay as an empty feed.
+ */
+
+export type ReplayOptions = {
+    dir: string;
+    /** Feed time at `clockStartMs`; `null` starts at the beginning of the recording. */
+    startMs: number | null;
+    speed: number;
+};
+
+type ReplayFrame = {
+    timestampMs: number;
+    read: () => VehicleObservation[];
+};
+
+type ReplayRecording = {
+    startMs: number;
+    /** One poll interval after the last frame, so the last poll plays for as long as the others. */
+    endMs: number;
+    /** Latest frame at or before `recordedMs`, if one is recent enough. */
+    frameAt: (recordedMs: number) => ReplayFrame | null;
+};
+
+// NextBus drops vehicles that haven't reported for 15 minutes; a longer gap means no data.
+const MAX_FRAME_GAP_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Assumed poll interval for a recording with a single frame.
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+// Decoded days of a vehicle archive kept in memory (the current day and its neighbour).
+const MAX_LOADED_DAYS = 2;
+const VEHICLE_ARCHIVE_PREFIX = 'vehicles';
+
+/** Index of the last element with `timestampMs <= ms`, or -1. */
+function lastFrameIndexAtOrBefore(frames: Array<{ timestampMs: number }>, ms: number): number {
+    let lo = 0;
+    let hi = frames.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (frames[mid].timestampMs <= ms) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found;
+}
+
+function recordingEndMs(frames: ReplayFrame[]): number {
+    const last = frames[frames.length - 1].timestampMs;
+    const previous = frames.length > 1 ? frames[frames.length - 2].timestampMs : last;
+    return last + (last > previous ? last - previous : DEFAULT_POLL_INTERVAL_MS);
+}
+
+function recentFrame(frames: ReplayFrame[], recordedMs: number): ReplayFrame | null {
+    const frame = frames[lastFrameIndexAtOrBefore(frames, recordedMs)];
+    return frame && recordedMs - frame.timestampMs <= MAX_FRAME_GAP_MS ? frame : null;
+}
+
+function xmlSnapshotTime(file: string): number | null {
+    const fromName = /(?:^|\D)(\d{13}|\d{10})(?:\D|$)/.exec(path.basename(file));
+    if (fromName) return fromName[1].length === 13 ? Number(fromName[1]) : Number(fromName[1]) * 1000;
+
+    const lastTime = /<lastTime\s+time="(\d+)"/.exec(fs.readFileSync(file, 'utf-8'));
+    return lastTime ? Number(lastTime[1]) : null;
+}
+
+function openXmlRecording(dir: string, names: string[]): ReplayRecording | null {
+    const frames: ReplayFrame[] = [];
+    for (const name of names) {
+        const file = path.join(dir, name);
+        const timestampMs = xmlSnapshotTime(file);
+        if (timestampMs === null) {
+            console.warn(`Replay: no snapshot time for ${file}, skipping`);
+            continue;
+        }
+        frames.push({
+            timestampMs,
+            read: () => parseVehicleLocations(createFeedParser().parse(fs.readFileSync(file, 'utf-8'))),
+        });
+    }
+    if (frames.length === 0) return null;
+    frames.sort((a, b) => a.timestampMs - b.timestampMs);
+
+    return {
+        startMs: frames[0].timestampMs,
+        endMs: recordingEndMs(frames),
+        frameAt: (recordedMs) => recentFrame(frames, recordedMs),
+    };
+}
+
+/**
+ * Index one day of the vehicle archive: the file stays in memory as bytes and each poll is
+ * decoded only when it is served.
+ */
+function loadArchiveDay(file: ArchiveFile): ReplayFrame[] {
+    const raw = fs.readFileSync(file.path);
+    const bytes = file.gzipped ? gunzipSync(raw) : raw;
+
+    const frames: ReplayFrame[] = [];
+    let start = 0;
+    while (start < bytes.length) {
+        const newline = bytes.indexOf(0x0a, start);
+        const end = newline === -1 ? bytes.length : newline;
+        // `timestampMs` is the first key of every encoded poll.
+        const head = /^\{"timestampMs":(\d+)/.exec(bytes.toString('utf-8', start, Math.min(end, start + 32)));
+        if (head) {
+            const [lineStart, lineEnd] = [start, end];
+            frames.push({
+                timestampMs: Number(head[1]),
+                read: () => {
+                    try {
+                        const record = JSON.parse(bytes.toString('utf-8', lineStart, lineEnd)) as VehicleArchiveRecord;
+                        return decodeVehicleArchiveRecord(record);
+                    } catch {
+                        // A partial line left by a crashed write.
+                        console.warn(`Replay: skipping malformed poll in ${file.path}`);
+                        return [];
+                    }
+                },
+            });
+        }
+        start = end + 1;
+    }
+    return frames.sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+function openVehicleArchiveRecording(dir: string): ReplayRecording | null {
+    const files = listArchiveFiles({ dir, prefix: VEHICLE_ARCHIVE_PREFIX });
+    if (files.length === 0) return null;
+    const filesByDay = new Map(files.map((f) => [f.day, f]));
+    const loaded = new Map<string, ReplayFrame[]>();
+
+    function framesForDay(day: string): ReplayFrame[] {
+        const cached = loaded.get(day);
+        if (cached) return cached;
+        const file = filesByDay.get(day);
+        const frames = file ? loadArchiveDay(file) : [];
+        if (loaded.size >= MAX_LOADED_DAYS) loaded.delete(loaded.keys().next().value!);
+        loaded.set(day, frames);
+        return frames;
+    }
+
+    const first = framesForDay(files[0].day)[0];
+    const lastDay = framesForDay(files[files.length - 1].day);
+    if (!first || lastDay.length === 0) return null;
+
+    return {
+        startMs: first.timestampMs,
+        endMs: recordingEndMs(lastDay),
+        frameAt: (recordedMs) =>
+            recentFrame(framesForDay(archiveDay(recordedMs)), recordedMs) ??
+            // Just after midnight, the latest poll may be in the previous day's file.
+            recentFrame(framesForDay(archiveDay(recordedMs - DAY_MS)), recordedMs),
+    };
+}
+
+function openRecording(dir: string): ReplayRecording {
+    const names = fs.existsSync(dir) ? fs.readdirSync(dir) : [];
+    const xmlNames = names.filter((name) => name.toLowerCase().endsWith('.xml'));
+    const recording = xmlNames.length > 0 ? openXmlRecording(dir, xmlNames) : openVehicleArchiveRecording(dir);
+    if (!recording) {
+        throw new Error(
+            `No replay recording in ${dir} (expected ${VEHICLE_ARCHIVE_PREFIX}-YYYY-MM-DD.ndjson[.gz] or vehicleLocations *.xml files)`
+        );
+    }
+    return recording;
+}
+
+/** Position of feed time `feedMs` within a recording that loops from `startMs` to `endMs`. */
+export function loopRecordedTime(feedMs: number, startMs: number, endMs: number): number {
+    const span = endMs - startMs;
+    if (span <= 0) return startMs;
+    return startMs + ((((feedMs - startMs) % span) + span) % span);
+}
+
+export function createReplaySource(options: ReplayOptions, clockStartMs: number = Date.now()): VehicleSource {
+    let recording: ReplayRecording | null = null;
+    const open = () => (recording ??= openRecording(options.dir));
+
+    return {
+        kind: 'replay',
+        clock(nowMs) {
+            return (options.startMs ?? open().startMs) + (nowMs - clockStartMs) * options.speed;
+        },
+        async fetchVehicles(feedNowMs) {
+            const { startMs, endMs, frameAt } = open();
+            const recordedMs = loopRecordedTime(feedNowMs, startMs, endMs);
+            const frame = frameAt(recordedMs);
+            if (!frame) return [];
+
+            const ageSecs = Math.round((recordedMs - frame.timestampMs) / 1000);
+            return frame.read().map((o) => ({
+                ...o,
+                secsSinceReport: o.secsSinceReport === null ? null : o.secsSinceReport + ageSecs,
+            }));
+        },
+    };
+}
+
+/**
+ * Replay settings from the environment. Invalid values throw rather than silently replaying
+ * from somewhere else.
+ */
+export function getReplayOptions(): ReplayOptions {
+    const dir = (process.env.TTC_REPLAY_DIR ?? '').trim() || path.join(process.cwd(), 'speed-cache');
+
+    const startRaw = (process.env.TTC_REPLAY_START ?? '').trim();
+    const startMs = startRaw ? Date.parse(startRaw) : null;
+    if (startMs !== null && !Number.isFinite(startMs)) throw new Error(`Invalid TTC_REPLAY_START: ${startRaw}`);
+
+    const speedRaw = (process.env.TTC_REPLAY_SPEED ?? '').trim();
+    const speed = speedRaw ? Number(speedRaw) : 1;
+    if (!Number.isFinite(speed) || speed <= 0) throw new Error(`Invalid TTC_REPLAY_SPEED: ${speedRaw}`);
+
+    return { dir, startMs, speed };
+}
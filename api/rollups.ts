@@ -0,0 +1,399 @@
+import {
+    asNumber,
+    readHourSamples,
+    readSampleHistory,
+    recordMinuteSamples,
+    type LiveRouteSample,
+    type MinuteSampleUpdate,
+    type SpeedSample,
+} from './avg24h';
+import { recordProfileHours, type ProfileSample } from './hourOfWeek';
+import { round1 } from './ingest';
+import { mgetChunked, setManyChunked, type KvClient } from './kv';
+
+/**
+ * Hierarchical rollups and multi-window rolling averages (1h, 24h, 7d, 30d).
+ *
+ * Retention tiers:
+ * - minute samples for 24h (`./avg24h`)
+ * - hourly aggregates for 30 days (`ttc:rollup:hourly:<route>`)
+ * - daily aggregates for a year (`ttc:rollup:daily:<route>`)
+ *
+ * Rollups are appended only when an hour (or UTC day) closes, computed from the tier below,
+ * so the per-minute write path stays the same size as before. Each tier entry is encoded as
+ * a compact `[periodStartMs, avgKmh, sampleCount]` tuple; `sampleCount` (minutes with data)
+ * weights entries when combining them.
+ *
+ * `/api/history` reads the hourly and daily tiers for windows longer than the minute samples
+ * cover (`readRollupHistory`).
+ *
+ * Closed hours are also folded into each route's hour-of-week profile (`./hourOfWeek`).
+ *
+ * Every window is a sample-weighted mean. 1h averages come straight from minute samples
+ * (current and previous hour). 24h, 7d and 30d averages combine the closed hourly aggregates
+ * in the window with minute samples for the current (open) hour; for 24h, the oldest, partly
+ * covered hour is read from minute samples too. The closed-hour totals are cached per route, so
+ * only the hourly tick has to read full history.
+ */
+
+export type RollingAverages = {
+    avg1hSpeedKmh: number | null;
+    avg24hSpeedKmh: number | null;
+    avg7dSpeedKmh: number | null;
+    avg30dSpeedKmh: number | null;
+};
+
+export type RollupEntry = {
+    t: number; // period start (ms since epoch)
+    v: number; // average speed (km/h) over the period's samples
+    n: number; // number of minute samples in the period
+};
+
+/** Sum/count of closed hourly aggregates inside a window, cached between hourly ticks. */
+type ClosedTotals = {
+    sum: number;
+    n: number;
+};
+
+/** Closed hours inside each window, as of the last hourly tick. */
+type ClosedWindows = {
+    /** The 23 full hours before the current one (the 24h window's oldest hour is partial). */
+    closed23h: ClosedTotals;
+    closed7d: ClosedTotals;
+    closed30d: ClosedTotals;
+};
+
+type CachedWindows = RollingAverages & ClosedWindows;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const HOURLY_RETENTION_MS = 30 * DAY_MS;
+export const DAILY_RETENTION_MS = 366 * DAY_MS;
+
+const KV_HOURLY_KEY_PREFIX = 'ttc:rollup:hourly:';
+const KV_DAILY_KEY_PREFIX = 'ttc:rollup:daily:';
+const KV_WINDOWS_KEY_PREFIX = 'ttc:rollup:windows:';
+
+function hourlyKey(routeTag: string): string {
+    return `${KV_HOURLY_KEY_PREFIX}${routeTag}`;
+}
+
+function dailyKey(routeTag: string): string {
+    return `${KV_DAILY_KEY_PREFIX}${routeTag}`;
+}
+
+function windowsKey(routeTag: string): string {
+    return `${KV_WINDOWS_KEY_PREFIX}${routeTag}`;
+}
+
+function floorTo(ms: number, periodMs: number): number {
+    return Math.floor(ms / periodMs) * periodMs;
+}
+
+function parseJson(raw: unknown): unknown {
+    if (typeof raw !== 'string') return raw;
+    try {
+        return JSON.parse(raw) as unknown;
+    } catch {
+        return null;
+    }
+}
+
+function parseRollup(raw: unknown): RollupEntry[] {
+    const parsed = parseJson(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    const out: RollupEntry[] = [];
+    for (const item of parsed) {
+        if (!Array.isArray(item)) continue;
+        const t = asNumber(item[0]);
+        const v = asNumber(item[1]);
+        const n = asNumber(item[2]);
+        if (t === null || v === null || n === null || n <= 0) continue;
+        out.push({ t, v, n });
+    }
+    return out.sort((a, b) => a.t - b.t);
+}
+
+function serializeRollup(entries: RollupEntry[]): string {
+    const tuples: Array<[number, number, number]> = entries.map((e) => [e.t, Math.round(e.v * 100) / 100, e.n]);
+    return JSON.stringify(tuples);
+}
+
+function parseClosedTotals(value: unknown): ClosedTotals {
+    if (!value || typeof value !== 'object') return { sum: 0, n: 0 };
+    const sum = asNumber((value as Record<string, unknown>).sum);
+    const n = asNumber((value as Record<string, unknown>).n);
+    if (sum === null || n === null || n <= 0) return { sum: 0, n: 0 };
+    return { sum, n };
+}
+
+function parseCachedWindows(raw: unknown): CachedWindows | null {
+    const parsed = parseJson(raw);
+    if (!parsed || typeof parsed !== 'object') return null;
+    const obj = parsed as Record<string, unknown>;
+    return {
+        avg1hSpeedKmh: asNumber(obj.avg1hSpeedKmh),
+        avg24hSpeedKmh: asNumber(obj.avg24hSpeedKmh),
+        avg7dSpeedKmh: asNumber(obj.avg7dSpeedKmh),
+        avg30dSpeedKmh: asNumber(obj.avg30dSpeedKmh),
+        closed23h: parseClosedTotals(obj.closed23h),
+        closed7d: parseClosedTotals(obj.closed7d),
+        closed30d: parseClosedTotals(obj.closed30d),
+    };
+}
+
+/**
+ * Group entries (minute samples or finer rollups) into closed periods of `periodMs`.
+ *
+ * Only periods strictly after `afterMs` and strictly before `beforeMs` are produced.
+ */
+function rollUp(
+    entries: Array<{ t: number; v: number; n?: number }>,
+    periodMs: number,
+    afterMs: number,
+    beforeMs: number
+): RollupEntry[] {
+    const byPeriod = new Map<number, { sum: number; n: number }>();
+    for (const e of entries) {
+        const periodStart = floorTo(e.t, periodMs);
+        if (periodStart <= afterMs || periodStart >= beforeMs) continue;
+        const weight = e.n ?? 1;
+        const acc = byPeriod.get(periodStart) ?? { sum: 0, n: 0 };
+        acc.sum += e.v * weight;
+        acc.n += weight;
+        byPeriod.set(periodStart, acc);
+    }
+
+    return [...byPeriod.entries()]
+        .map(([t, acc]) => ({ t, v: acc.sum / acc.n, n: acc.n }))
+        .sort((a, b) => a.t - b.t);
+}
+
+function closedTotalsSince(hourly: RollupEntry[], windowStartMs: number): ClosedTotals {
+    let sum = 0;
+    let n = 0;
+    for (const e of hourly) {
+        if (e.t < windowStartMs) continue;
+        sum += e.v * e.n;
+        n += e.n;
+    }
+    return { sum, n };
+}
+
+function sampleTotals(samples: SpeedSample[], fromMs: number): ClosedTotals {
+    let sum = 0;
+    let n = 0;
+    for (const s of samples) {
+        if (s.t < fromMs) continue;
+        sum += s.v;
+        n += 1;
+    }
+    return { sum, n };
+}
+
+function combinedAvg(...parts: ClosedTotals[]): number | null {
+    const n = parts.reduce((acc, p) => acc + p.n, 0);
+    if (n <= 0) return null;
+    return round1(parts.reduce((acc, p) => acc + p.sum, 0) / n);
+}
+
+export type RollingSampleResult = {
+    /** The minute-sample write (or skip) this call performed. */
+    update: MinuteSampleUpdate;
+    averagesByRouteTag: Record<string, RollingAverages>;
+};
+
+/**
+ * Compute (and persist) rolling 1h/24h/7d/30d averages for the given live per-route samples.
+ *
+ * Called once per request; at most one sampling pass happens per minute bucket. When the bucket
+ * has already been sampled, cached averages are read back instead.
+ */
+export async function getRollingAveragesByRouteTag(
+    client: KvClient,
+    liveRoutes: LiveRouteSample[],
+    nowMs: number
+): Promise<Record<string, RollingAverages>> {
+    const { averagesByRouteTag } = await sampleRollingAverages(client, liveRoutes, nowMs);
+    return averagesByRouteTag;
+}
+
+/**
+ * Same as `getRollingAveragesByRouteTag`, but also reports what happened to the minute bucket
+ * (used by the scheduled sampler to report missed buckets).
+ *
+ * Rollups run under the sampling claim held by `recordMinuteSamples`.
+ */
+export async function sampleRollingAverages(
+    client: KvClient,
+    liveRoutes: LiveRouteSample[],
+    nowMs: number
+): Promise<RollingSampleResult> {
+    const routeTags = [...new Set(liveRoutes.map((r) => r.routeTag))];
+    const computed: { averagesByRouteTag: Record<string, RollingAverages> | null } = { averagesByRouteTag: null };
+    const update = await recordMinuteSamples(client, liveRoutes, nowMs, async (sampledUpdate) => {
+        computed.averagesByRouteTag = await updateRollups(client, sampledUpdate, routeTags, nowMs);
+    });
+    if (routeTags.length === 0) return { update, averagesByRouteTag: {} };
+    if (computed.averagesByRouteTag) return { update, averagesByRouteTag: computed.averagesByRouteTag };
+
+    // Not sampled by this call (already sampled, or another invocation holds the claim).
+    return { update, averagesByRouteTag: await readCachedAverages(client, routeTags) };
+}
+
+async function readCachedAverages(client: KvClient, routeTags: string[]): Promise<Record<string, RollingAverages>> {
+    const values = await mgetChunked(client, routeTags.map(windowsKey));
+    const out: Record<string, RollingAverages> = {};
+    for (let i = 0; i < routeTags.length; i++) {
+        const cached = parseCachedWindows(values[i]);
+        out[routeTags[i]] = {
+            avg1hSpeedKmh: cached?.avg1hSpeedKmh ?? null,
+            avg24hSpeedKmh: cached?.avg24hSpeedKmh ?? null,
+            avg7dSpeedKmh: cached?.avg7dSpeedKmh ?? null,
+            avg30dSpeedKmh: cached?.avg30dSpeedKmh ?? null,
+        };
+    }
+    return out;
+}
+
+export type RollupTier = 'hourly' | 'daily';
+
+/**
+ * Closed hourly or daily aggregates per route, oldest first (for `/api/history` windows
+ * beyond the minute samples).
+ */
+export async function readRollupHistory(
+    client: KvClient,
+    routeTags: string[],
+    tier: RollupTier
+): Promise<Record<string, RollupEntry[]>> {
+    const values = await mgetChunked(client, routeTags.map(tier === 'hourly' ? hourlyKey : dailyKey));
+    const out: Record<string, RollupEntry[]> = {};
+    for (let i = 0; i < routeTags.length; i++) out[routeTags[i]] = parseRollup(values[i]);
+    return out;
+}
+
+/**
+ * Append closed hours/days and recompute every window for a freshly sampled bucket.
+ */
+async function updateRollups(
+    client: KvClient,
+    update: MinuteSampleUpdate,
+    routeTags: string[],
+    nowMs: number
+): Promise<Record<string, RollingAverages>> {
+    const sampledTags = Object.keys(update.samplesByRouteTag);
+    const currentHourMs = floorTo(update.bucketMs, HOUR_MS);
+    const currentDayMs = floorTo(update.bucketMs, DAY_MS);
+    const hourClosed = update.lastBucketMs === null || floorTo(update.lastBucketMs, HOUR_MS) !== currentHourMs;
+    const dayClosed = update.lastBucketMs === null || floorTo(update.lastBucketMs, DAY_MS) !== currentDayMs;
+
+    const kvSets: Array<[string, string]> = [];
+    // Daily keys also expire after a year, so routes that stop running don't linger forever.
+    const dailySets: Array<[string, string]> = [];
+    const closedByTag = new Map<string, ClosedWindows>();
+    const hourlyByTag = new Map<string, RollupEntry[]>();
+    const closedHoursByTag: Record<string, ProfileSample[]> = {};
+
+    // Between hourly ticks, reuse the closed totals cached at the last tick.
+    const refreshTags: string[] = [];
+    if (hourClosed) {
+        refreshTags.push(...sampledTags);
+    } else {
+        const cachedWindows = await mgetChunked(client, sampledTags.map(windowsKey));
+        for (let i = 0; i < sampledTags.length; i++) {
+            const cached = parseCachedWindows(cachedWindows[i]);
+            if (cached) closedByTag.set(sampledTags[i], cached);
+            else refreshTags.push(sampledTags[i]);
+        }
+    }
+
+    // Hourly tick (or missing cache): append newly closed hours from minute samples and
+    // recompute the closed totals.
+    if (refreshTags.length > 0) {
+        const history = await readSampleHistory(client, refreshTags, nowMs);
+        const existingHourly = await mgetChunked(client, refreshTags.map(hourlyKey));
+        for (let i = 0; i < refreshTags.length; i++) {
+            const tag = refreshTags[i];
+            const prev = parseRollup(existingHourly[i]);
+            const lastHourMs = prev[prev.length - 1]?.t ?? Number.NEGATIVE_INFINITY;
+            const added = rollUp(history[tag], HOUR_MS, lastHourMs, currentHourMs);
+            const hourly = [...prev, ...added].filter((e) => e.t >= nowMs - HOURLY_RETENTION_MS);
+
+            hourlyByTag.set(tag, hourly);
+            closedHoursByTag[tag] = added;
+            if (added.length > 0 || hourly.length !== prev.length) {
+                kvSets.push([hourlyKey(tag), serializeRollup(hourly)]);
+            }
+            closedByTag.set(tag, {
+                closed23h: closedTotalsSince(hourly, currentHourMs - 23 * HOUR_MS),
+                closed7d: closedTotalsSince(hourly, nowMs - 7 * DAY_MS),
+                closed30d: closedTotalsSince(hourly, nowMs - 30 * DAY_MS),
+            });
+        }
+    }
+
+    // Daily tick: append newly closed UTC days from hourly aggregates.
+    if (dayClosed && hourClosed) {
+        const existingDaily = await mgetChunked(client, sampledTags.map(dailyKey));
+        for (let i = 0; i < sampledTags.length; i++) {
+            const tag = sampledTags[i];
+            const prev = parseRollup(existingDaily[i]);
+            const lastDayMs = prev[prev.length - 1]?.t ?? Number.NEGATIVE_INFINITY;
+            const added = rollUp(hourlyByTag.get(tag) ?? [], DAY_MS, lastDayMs, currentDayMs);
+            const daily = [...prev, ...added].filter((e) => e.t >= nowMs - DAILY_RETENTION_MS);
+            if (added.length > 0 || daily.length !== prev.length) {
+                dailySets.push([dailyKey(tag), serializeRollup(daily)]);
+            }
+        }
+    }
+
+    // Partial hours at the window edges: the previous hour (for 1h) and the oldest hour (for 24h).
+    const previousHourMs = currentHourMs - HOUR_MS;
+    const oldestHourMs = currentHourMs - DAY_MS;
+    const edgeSamples = await readHourSamples(client, sampledTags, [previousHourMs, oldestHourMs]);
+
+    const emptyClosed: ClosedWindows = {
+        closed23h: { sum: 0, n: 0 },
+        closed7d: { sum: 0, n: 0 },
+        closed30d: { sum: 0, n: 0 },
+    };
+
+    const out: Record<string, RollingAverages> = {};
+    for (const tag of routeTags) {
+        const openHourSamples: SpeedSample[] | undefined = update.samplesByRouteTag[tag];
+        if (!openHourSamples) {
+            out[tag] = { avg1hSpeedKmh: null, avg24hSpeedKmh: null, avg7dSpeedKmh: null, avg30dSpeedKmh: null };
+            continue;
+        }
+
+        const edges = edgeSamples[tag] ?? [];
+        const openHour = sampleTotals(openHourSamples, currentHourMs);
+        const lastHourEdge = sampleTotals(edges.filter((s) => s.t < currentHourMs), nowMs - HOUR_MS);
+        const oldestHourEdge = sampleTotals(edges.filter((s) => s.t < oldestHourMs + HOUR_MS), nowMs - DAY_MS);
+        const closed = closedByTag.get(tag) ?? emptyClosed;
+
+        const averages: RollingAverages = {
+            avg1hSpeedKmh: combinedAvg(lastHourEdge, openHour),
+            avg24hSpeedKmh: combinedAvg(oldestHourEdge, closed.closed23h, openHour),
+            avg7dSpeedKmh: combinedAvg(closed.closed7d, openHour),
+            avg30dSpeedKmh: combinedAvg(closed.closed30d, openHour),
+        };
+        out[tag] = averages;
+
+        const cached: CachedWindows = {
+            ...averages,
+            closed23h: closed.closed23h,
+            closed7d: closed.closed7d,
+            closed30d: closed.closed30d,
+        };
+        kvSets.push([windowsKey(tag), JSON.stringify(cached)]);
+    }
+
+    await setManyChunked(client, kvSets);
+    await setManyChunked(client, dailySets, { px: DAILY_RETENTION_MS });
+    await recordProfileHours(client, closedHoursByTag);
+    return out;
+}
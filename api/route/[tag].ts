@@ -0,0 +1,121 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { computeSpeedDistribution, type SpeedDistribution } from '../distribution';
+import { emptyExclusionCounts, type ExclusionCounts, type ExclusionReason } from '../exclusions';
+import type { SpeedSource } from '../ingest';
+import { collectLiveRouteSpeeds, getDirectionTitle, type DirectionSpeed } from '../pipeline';
+import { classifyRoute, type ServiceCategory, type TransitMode } from '../routeClasses';
+import { FeedFetchError } from '../sources';
+
+type RouteVehicle = {
+    vehicleId: string | null;
+    dirTag: string | null;
+    dirTitle: string | null;
+    lat: number | null;
+    lon: number | null;
+    heading: number | null;
+    speedKmh: number | null;
+    speedSource: SpeedSource | null;
+    secsSinceReport: number | null;
+    predictable: boolean | null;
+    /** Why this vehicle is left out of the route's speed, or `null` if it counts. */
+    excludedReason: ExclusionReason | null;
+};
+
+type RouteDetail = {
+    routeTag: string;
+    routeTitle: string | null;
+    mode: TransitMode;
+    serviceCategory: ServiceCategory;
+    /** Arithmetic mean over counted vehicles (same as `/api/ttc` default), or `null` if none. */
+    liveSpeedKmh: number | null;
+    vehicleCount: number;
+    excludedVehicleCounts: ExclusionCounts;
+    directions: DirectionSpeed[];
+    /** Distribution over counted vehicles with a speed; `null` if there are none. */
+    distribution: SpeedDistribution | null;
+    /** Every vehicle currently reported on the route, including excluded ones. */
+    vehicles: RouteVehicle[];
+    updatedAt: string; // ISO string
+};
+
+function compareVehicleIds(a: RouteVehicle, b: RouteVehicle): number {
+    return (a.vehicleId ?? '').localeCompare(b.vehicleId ?? '', undefined, { numeric: true });
+}
+
+/**
+ * Route detail: everything we know about one route right now.
+ *
+ * `GET /api/route/:tag` (e.g. `/api/route/504`). Replies 404 if no vehicles are reported on
+ * the route.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        const rawTag = Array.isArray(req.query.tag) ? req.query.tag[0] : req.query.tag;
+        const routeTag = (rawTag ?? '').trim();
+        if (routeTag.length === 0) {
+            return res.status(400).json({ error: 'Missing route tag' });
+        }
+
+        const nowMs = Date.now();
+        const snapshot = await collectLiveRouteSpeeds(nowMs);
+
+        const observations = snapshot.observations.filter((o) => o.routeTag === routeTag);
+        if (observations.length === 0) {
+            return res.status(404).json({ error: `No active vehicles for route ${routeTag}` });
+        }
+
+        const reasonByObservation = new Map(snapshot.excluded.map((e) => [e.observation, e.reason]));
+        const config = snapshot.routeConfigsByTag[routeTag];
+
+        const vehicles: RouteVehicle[] = observations
+            .map((o) => ({
+                vehicleId: o.vehicleId,
+                dirTag: o.dirTag,
+                dirTitle: o.dirTag === null ? null : getDirectionTitle(config, o.dirTag),
+                lat: o.lat,
+                lon: o.lon,
+                heading: o.heading,
+                speedKmh: o.speedKmh,
+                speedSource: o.speedSource,
+                secsSinceReport: o.secsSinceReport,
+                predictable: o.predictable,
+                excludedReason: reasonByObservation.get(o) ?? null,
+            }))
+            .sort(compareVehicleIds);
+
+        const countedSpeeds = vehicles
+            .filter((v) => v.excludedReason === null && v.speedKmh !== null)
+            .map((v) => v.speedKmh as number);
+
+        const route = snapshot.routes.find((r) => r.routeTag === routeTag);
+        const excludedVehicleCounts = emptyExclusionCounts();
+        for (const v of vehicles) {
+            if (v.excludedReason !== null) excludedVehicleCounts[v.excludedReason] += 1;
+        }
+
+        const routeTitle = snapshot.routeTitlesByTag[routeTag] ?? config?.title ?? null;
+        const detail: RouteDetail = {
+            routeTag,
+            routeTitle,
+            ...classifyRoute(routeTag, snapshot.routeTitlesByTag[routeTag] ?? null, config),
+            liveSpeedKmh: route?.speedKmh ?? null,
+            vehicleCount: route?.vehicleCount ?? 0,
+            excludedVehicleCounts,
+            directions: route?.directions ?? [],
+            distribution: computeSpeedDistribution(countedSpeeds),
+            vehicles,
+            updatedAt: new Date(nowMs).toISOString(),
+        };
+
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.setHeader('Content-Type', 'application/json');
+
+        return res.status(200).json(detail);
+    } catch (error) {
+        if (error instanceof FeedFetchError) {
+            return res.status(error.status).json({ error: 'Failed to fetch TTC data' });
+        }
+        console.error('Error fetching route detail:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+}
@@ -0,0 +1,126 @@
+import type { RouteConfig } from './routeConfig';
+
+/**
+ * Transit mode and service category per route.
+ *
+ * The feed has no vehicle-type field, so routes are classified (first match wins) from:
+ *
+ * 1. `ROUTE_CLASS_OVERRIDES`, for routes whose metadata or number is misleading
+ * 2. keywords in the route title and `routeConfig` direction titles/names (e.g. "Express",
+ *    "Blue Night", "Shuttle", "Streetcar")
+ * 3. TTC numbering conventions: 1–4 subway, 5xx streetcar, 3xx Blue Night, 4xx Community,
+ *    7xx/8xx replacement shuttles, 9xx Express
+ *
+ * Mode and category are classified independently, so e.g. `304` King Blue Night can be a
+ * streetcar on the Blue Night network. Shuttles are always buses unless overridden.
+ *
+ * `routeConfig` is fetched lazily per route (`./routeConfig`), so until it arrives a route is
+ * classified from its `routeList` title alone. The first classification made with a config is
+ * remembered for the life of the process, so a route changes class at most once (when its
+ * config first loads) and never flips back if a later config fetch fails.
+ */
+
+export type TransitMode = 'subway' | 'lrt' | 'streetcar' | 'bus';
+
+export type ServiceCategory = 'regular' | 'blue-night' | 'express' | 'community' | 'shuttle';
+
+export type RouteClass = {
+    mode: TransitMode;
+    serviceCategory: ServiceCategory;
+};
+
+/**
+ * Known exceptions, by route tag. Keep entries minimal (only the field that needs fixing) and
+ * say why if it isn't obvious.
+ */
+const ROUTE_CLASS_OVERRIDES: Record<string, Partial<RouteClass>> = {
+    // Rapid transit lines are reported under their line number.
+    '1': { mode: 'subway' },
+    '2': { mode: 'subway' },
+    '4': { mode: 'subway' },
+    '5': { mode: 'lrt' }, // Line 5 Eglinton
+    '6': { mode: 'lrt' }, // Line 6 Finch West
+    // Blue Night streetcars (3xx is otherwise a bus number).
+    '301': { mode: 'streetcar' },
+    '304': { mode: 'streetcar' },
+    '305': { mode: 'streetcar' },
+    '306': { mode: 'streetcar' },
+    '310': { mode: 'streetcar' },
+    '312': { mode: 'streetcar' },
+};
+
+// Matched against the route title and every direction title/name.
+const MODE_KEYWORDS: Array<[RegExp, TransitMode]> = [
+    [/\b(lrt|light rail)\b/i, 'lrt'],
+    [/\bsubway\b/i, 'subway'],
+    [/\bstreetcar\b/i, 'streetcar'],
+];
+
+const CATEGORY_KEYWORDS: Array<[RegExp, ServiceCategory]> = [
+    [/\bshuttle\b/i, 'shuttle'],
+    [/\bblue night\b/i, 'blue-night'],
+    [/\bexpress\b/i, 'express'],
+    [/\bcommunity\b/i, 'community'],
+];
+
+function routeNumber(routeTag: string): number | null {
+    const match = /^(\d+)/.exec(routeTag.trim());
+    return match ? Number(match[1]) : null;
+}
+
+function modeFromNumber(n: number | null): TransitMode {
+    if (n === null) return 'bus';
+    if (n >= 1 && n <= 4) return 'subway';
+    if (n >= 500 && n <= 599) return 'streetcar';
+    return 'bus';
+}
+
+function categoryFromNumber(n: number | null): ServiceCategory {
+    if (n === null) return 'regular';
+    if (n >= 300 && n <= 399) return 'blue-night';
+    if (n >= 400 && n <= 499) return 'community';
+    if (n >= 700 && n <= 899) return 'shuttle';
+    if (n >= 900 && n <= 999) return 'express';
+    return 'regular';
+}
+
+function firstKeywordMatch<T>(texts: string[], keywords: Array<[RegExp, T]>): T | null {
+    for (const [pattern, value] of keywords) {
+        if (texts.some((text) => pattern.test(text))) return value;
+    }
+    return null;
+}
+
+// Classes derived with a `routeConfig`, by route tag.
+const configuredClasses = new Map<string, RouteClass>();
+
+/**
+ * Classify one route. `title` is the `routeList` title; `config` is its `routeConfig`, when it
+ * has been fetched (see the module comment for how classes stay stable around it).
+ */
+export function classifyRoute(routeTag: string, title: string | null, config?: RouteConfig): RouteClass {
+    if (!config) return configuredClasses.get(routeTag) ?? deriveRouteClass(routeTag, [title]);
+
+    let routeClass = configuredClasses.get(routeTag);
+    if (!routeClass) {
+        const directionTexts = config.directions.flatMap((d) => [d.title, d.name]);
+        routeClass = deriveRouteClass(routeTag, [config.title ?? title, ...directionTexts]);
+        configuredClasses.set(routeTag, routeClass);
+    }
+    return routeClass;
+}
+
+function deriveRouteClass(routeTag: string, metadata: Array<string | null>): RouteClass {
+    const texts = metadata.filter((t): t is string => !!t);
+    const n = routeNumber(routeTag);
+    const override = ROUTE_CLASS_OVERRIDES[routeTag.trim()] ?? {};
+
+    const serviceCategory =
+        override.serviceCategory ?? firstKeywordMatch(texts, CATEGORY_KEYWORDS) ?? categoryFromNumber(n);
+    // Replacement shuttles are buses, even when named after (or numbered like) the line they replace.
+    const mode =
+        override.mode ??
+        (serviceCategory === 'shuttle' ? 'bus' : firstKeywordMatch(texts, MODE_KEYWORDS) ?? modeFromNumber(n));
+
+    return { mode, serviceCategory };
+}
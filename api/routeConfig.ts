@@ -0,0 +1,159 @@
+import type { XMLParser } from 'fast-xml-parser';
+import { METADATA_FETCH_TIMEOUT_MS, ROUTE_CONFIG_URL, asArray, parseNonEmptyString } from './ingest';
+
+/**
+ * NextBus/UmoIQ `routeConfig` metadata (stops, directions, terminals) per route.
+ *
+ * Endpoint: `command=routeConfig&a=ttc&r=<routeTag>`
+ *
+ * Without `r=`, the feed only returns the first 100 routes, so configs are fetched per route
+ * and cached in memory. Like route titles, this is best-effort (with the same fetch timeout):
+ * callers must cope with a route having no config yet.
+ */
+
+export type RouteStop = {
+    tag: string;
+    title: string | null;
+    lat: number;
+    lon: number;
+};
+
+export type RouteDirection = {
+    tag: string;
+    title: string | null;
+    name: string | null;
+    useForUI: boolean;
+    stopTags: string[];
+};
+
+export type RouteConfig = {
+    routeTag: string;
+    title: string | null;
+    stopsByTag: Record<string, RouteStop>;
+    directions: RouteDirection[];
+    /** First and last stop of every direction, de-duplicated. */
+    terminals: RouteStop[];
+};
+
+type CachedRouteConfig = {
+    expiresAtMs: number;
+    config: RouteConfig | null; // `null` caches a failed fetch (negative cache)
+};
+
+const routeConfigCache = new Map<string, CachedRouteConfig>();
+const ROUTE_CONFIG_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours: stops/directions rarely change
+const ROUTE_CONFIG_FAILURE_TTL_MS = 10 * 60 * 1000; // retry failed routes after 10 minutes
+
+// Serverless safeguard: a cold start may see ~200 routes; fetch a bounded number per call and
+// fill the rest in on subsequent requests rather than blocking one response on 200 fetches.
+const MAX_ROUTE_CONFIG_FETCHES_PER_CALL = 12;
+
+function parseCoordinate(value: unknown): number | null {
+    if (value === null || value === undefined) return null;
+    const n = Number(String(value).trim());
+    return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parse a `routeConfig` payload for a single route.
+ *
+ * Feed shape guard: `route`, `route.stop`, `route.direction` and `direction.stop` may each be a
+ * single object or an array. Stops without valid coordinates are dropped.
+ */
+export function parseRouteConfig(json: unknown): RouteConfig | null {
+    const body = (json as { body?: { route?: unknown } } | null | undefined)?.body;
+    const route = asArray(body?.route as Record<string, unknown> | Record<string, unknown>[] | undefined)[0];
+    if (!route) return null;
+
+    const routeTag = parseNonEmptyString(route['@_tag']);
+    if (!routeTag) return null;
+
+    const stopsByTag: Record<string, RouteStop> = {};
+    for (const stop of asArray(route.stop as Record<string, unknown> | Record<string, unknown>[] | undefined)) {
+        const tag = parseNonEmptyString(stop['@_tag']);
+        const lat = parseCoordinate(stop['@_lat']);
+        const lon = parseCoordinate(stop['@_lon']);
+        if (!tag || lat === null || lon === null) continue;
+        stopsByTag[tag] = { tag, title: parseNonEmptyString(stop['@_title']), lat, lon };
+    }
+
+    const directions: RouteDirection[] = [];
+    for (const dir of asArray(route.direction as Record<string, unknown> | Record<string, unknown>[] | undefined)) {
+        const tag = parseNonEmptyString(dir['@_tag']);
+        if (!tag) continue;
+        const stopTags = asArray(dir.stop as Record<string, unknown> | Record<string, unknown>[] | undefined)
+            .map((s) => parseNonEmptyString(s['@_tag']))
+            .filter((s): s is string => s !== null);
+        directions.push({
+            tag,
+            title: parseNonEmptyString(dir['@_title']),
+            name: parseNonEmptyString(dir['@_name']),
+            useForUI: dir['@_useForUI'] !== 'false',
+            stopTags,
+        });
+    }
+
+    const terminalTags = new Set<string>();
+    for (const dir of directions) {
+        if (dir.stopTags.length === 0) continue;
+        terminalTags.add(dir.stopTags[0]);
+        terminalTags.add(dir.stopTags[dir.stopTags.length - 1]);
+    }
+    const terminals = [...terminalTags].map((t) => stopsByTag[t]).filter((s): s is RouteStop => Boolean(s));
+
+    return {
+        routeTag,
+        title: parseNonEmptyString(route['@_title']),
+        stopsByTag,
+        directions,
+        terminals,
+    };
+}
+
+async function fetchRouteConfig(parser: XMLParser, routeTag: string): Promise<RouteConfig | null> {
+    const resp = await fetch(`${ROUTE_CONFIG_URL}&r=${encodeURIComponent(routeTag)}`, {
+        signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT_MS),
+    });
+    if (!resp.ok) {
+        throw new Error(`Failed to fetch routeConfig for ${routeTag} (${resp.status})`);
+    }
+    return parseRouteConfig(parser.parse(await resp.text()));
+}
+
+/**
+ * Get cached `routeConfig` metadata for the given routes, fetching a bounded number of
+ * missing/expired ones.
+ *
+ * Routes whose config is unknown (not fetched yet, or the fetch failed) are simply absent
+ * from the result.
+ */
+export async function getRouteConfigs(parser: XMLParser, routeTags: string[]): Promise<Record<string, RouteConfig>> {
+    const now = Date.now();
+    const uniqueTags = [...new Set(routeTags)];
+
+    const toFetch = uniqueTags
+        .filter((tag) => (routeConfigCache.get(tag)?.expiresAtMs ?? 0) <= now)
+        .slice(0, MAX_ROUTE_CONFIG_FETCHES_PER_CALL);
+
+    await Promise.all(
+        toFetch.map(async (tag) => {
+            try {
+                const config = await fetchRouteConfig(parser, tag);
+                const ttl = config ? ROUTE_CONFIG_TTL_MS : ROUTE_CONFIG_FAILURE_TTL_MS;
+                routeConfigCache.set(tag, { expiresAtMs: now + ttl, config });
+            } catch (error) {
+                console.warn(`Error fetching routeConfig for ${tag}:`, error);
+                // Keep serving a previously cached config (if any) until the retry.
+                const prev = routeConfigCache.get(tag);
+                routeConfigCache.set(tag, { expiresAtMs: now + ROUTE_CONFIG_FAILURE_TTL_MS, config: prev?.config ?? null });
+            }
+        })
+    );
+
+    const out: Record<string, RouteConfig> = {};
+    for (const tag of uniqueTags) {
+        const config = routeConfigCache.get(tag)?.config;
+        if (config) out[tag] = config;
+    }
+    return out;
+}
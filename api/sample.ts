@@ -0,0 +1,57 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { readMissedBucketReport } from './avg24h';
+import { firstQueryValue } from './http';
+import { getKvClient } from './kv';
+import { runSamplerTick } from './sampler';
+import { FeedFetchError, isPlaybackSource } from './sources';
+
+/**
+ * Vercel cron sends `Authorization: Bearer <CRON_SECRET>` when `CRON_SECRET` is set; without
+ * it, anyone could trigger (harmless but wasteful) sampling passes.
+ */
+function isAuthorized(req: VercelRequest): boolean {
+    const secret = (process.env.CRON_SECRET ?? '').trim();
+    if (!secret) return true;
+    return req.headers.authorization === `Bearer ${secret}`;
+}
+
+/**
+ * Scheduled sampler, for an opt-in per-minute cron in `vercel.json` (see the README; per-minute
+ * crons need a Vercel Pro plan).
+ *
+ * `GET /api/sample` samples the current minute bucket and reports missed buckets.
+ * `GET /api/sample?report=1` only returns the missed-bucket report for the last 24h.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        const kv = await getKvClient();
+        if (!kv) {
+            return res.status(503).json({ error: 'Sampling unavailable (configure TTC_STORAGE_BACKEND or Vercel KV)' });
+        }
+
+        const nowMs = Date.now();
+        res.setHeader('Content-Type', 'application/json');
+
+        if (firstQueryValue(req.query.report) !== undefined) {
+            return res.status(200).json({ report: await readMissedBucketReport(kv, nowMs) });
+        }
+
+        if (!isAuthorized(req)) {
+            return res.status(401).json({ error: 'Unauthorized' });
+        }
+
+        if (isPlaybackSource()) {
+            return res.status(409).json({ error: 'Sampling is disabled while replaying recorded data' });
+        }
+
+        const tick = await runSamplerTick(kv, nowMs);
+        const report = await readMissedBucketReport(kv, nowMs);
+        return res.status(200).json({ tick, report });
+    } catch (error) {
+        if (error instanceof FeedFetchError) {
+            return res.status(error.status).json({ error: 'Failed to fetch TTC data' });
+        }
+        console.error('Error running sampler:', error);
+        return res.status(500).json({ error: 'Internal server error' });
+    }
+}
@@ -0,0 +1,50 @@
+import { findMissedRange, type LiveRouteSample, type MissedRange } from './avg24h';
+import type { KvClient } from './kv';
+import { collectLiveRouteSpeeds } from './pipeline';
+import { sampleRollingAverages } from './rollups';
+import { isPlaybackSource } from './sources';
+
+/**
+ * Scheduled sampling, decoupled from user traffic.
+ *
+ * `/api/ttc` still samples opportunistically, but without visitors nothing is written and the
+ * history gets gaps (mostly overnight). The sampler runs one tick per minute bucket, either
+ * from a Vercel cron (`/api/sample`) or the local worker (`npm run sampler`).
+ *
+ * Live feeds can't be queried for the past, so missed buckets can't be backfilled. Instead
+ * whichever call samples first after a gap (a tick or a page request) records the skipped
+ * buckets in a rolling 24h log (`readMissedBucketReport` in `./avg24h`), so gaps are visible
+ * rather than silently skewing the averages.
+ */
+
+export type SamplerTickResult = {
+    bucketMs: number;
+    /** `false` if this bucket had already been sampled (by another tick or by `/api/ttc`). */
+    sampled: boolean;
+    routeCount: number;
+    /** Buckets skipped between the previous sample and this one, if any. */
+    missed: MissedRange | null;
+};
+
+/**
+ * Sample the current minute bucket: collect live speeds and record them (plus rollups,
+ * profiles and the missed-bucket log).
+ *
+ * Throws when the vehicle source is a replay, which must not be recorded as history.
+ */
+export async function runSamplerTick(client: KvClient, nowMs: number): Promise<SamplerTickResult> {
+    if (isPlaybackSource()) throw new Error('Sampling is disabled while TTC_VEHICLE_SOURCE=replay');
+
+    const { routes } = await collectLiveRouteSpeeds(nowMs);
+
+    // Same as /api/ttc: history always records the arithmetic mean.
+    const samples: LiveRouteSample[] = routes.map((r) => ({
+        routeTag: r.routeTag,
+        liveSpeedKmh: r.meanSpeedKmh,
+    }));
+    const { update } = await sampleRollingAverages(client, samples, nowMs);
+
+    const missed = update.sampled ? findMissedRange(update.lastBucketMs, update.bucketMs) : null;
+
+    return { bucketMs: update.bucketMs, sampled: update.sampled, routeCount: samples.length, missed };
+}
@@ -0,0 +1,235 @@
+import type { VehicleObservation } from './ingest';
+import { getKvClient, getStorageBackend, type KvClient } from './kv';
+import type { VehicleFeedUpdate, VehicleSource, VehicleSourceKind } from './sources';
+
+/**
+ * Shared upstream vehicle snapshot.
+ *
+ * Every client polls `/api/ttc` about once per second. Without this, each call would download
+ * and parse the whole TTC feed. Instead, one snapshot is kept for `SNAPSHOT_TTL_MS`:
+ *
+ * - in memory: concurrent calls in one instance share a single in-flight fetch
+ * - in Vercel KV: instances share the latest snapshot, and a short `SET NX` claim lets a single
+ *   instance refresh it while the others keep serving the previous one
+ *
+ * Refreshes are incremental where the source supports it (NextBus `t=<lastTime>`). Only
+ * vehicles that reported since the previous poll are fetched and merged into the maintained
+ * vehicle state. A full fetch every `FULL_REFRESH_INTERVAL_MS` drops vehicles that left
+ * service and resyncs anything an incremental poll missed.
+ *
+ * Report ages are stored as report times and turned back into `secsSinceReport` when served,
+ * so vehicles carried over from earlier polls age correctly.
+ */
+
+type SnapshotVehicle = VehicleObservation & {
+    /** Report time (ms since epoch), from `secsSinceReport` when the vehicle was fetched. */
+    reportedAtMs: number | null;
+};
+
+export type VehicleState = {
+    source: VehicleSourceKind;
+    fetchedAtMs: number;
+    /** Last full (non-incremental) fetch. */
+    fullFetchedAtMs: number;
+    /** Feed `lastTime` for the next incremental poll (`null` if the source has none). */
+    lastTimeMs: number | null;
+    vehicles: SnapshotVehicle[];
+};
+
+const MS_PER_SEC = 1000;
+
+// Requests within this long of the last fetch reuse the snapshot.
+const SNAPSHOT_TTL_MS = 5 * 1000;
+// While another instance holds the refresh claim, serve a snapshot up to this old.
+const STALE_SNAPSHOT_MAX_AGE_MS = 30 * 1000;
+const FULL_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// NextBus only lists vehicles that reported in the last 15 minutes; forget older ones too.
+const VEHICLE_MAX_AGE_MS = 15 * 60 * 1000;
+
+const KV_SNAPSHOT_KEY = 'ttc:snapshot:vehicles';
+const KV_REFRESH_CLAIM_KEY = 'ttc:snapshot:refresh';
+const KV_SNAPSHOT_TTL_MS = 10 * 60 * 1000;
+const REFRESH_CLAIM_TTL_MS = 10 * 1000;
+
+export type VehicleSnapshot = {
+    /** When the snapshot was last refreshed from upstream. */
+    fetchedAtMs: number;
+    observations: VehicleObservation[];
+};
+
+let memoryState: VehicleState | null = null;
+let inFlight: Promise<VehicleState> | null = null;
+
+function toSnapshotVehicle(o: VehicleObservation, nowMs: number): SnapshotVehicle {
+    const reportedAtMs = o.secsSinceReport === null ? null : nowMs - Math.max(0, o.secsSinceReport) * MS_PER_SEC;
+    return { ...o, reportedAtMs };
+}
+
+/**
+ * Merge a feed update into the vehicle state.
+ *
+ * A full update replaces the state. An incremental one replaces vehicles by `vehicleId` and
+ * keeps the rest; vehicles without an id can't be matched across polls, so only the latest
+ * update's id-less vehicles are kept. Vehicles not heard from in `VEHICLE_MAX_AGE_MS` are dropped.
+ */
+export function mergeVehicleUpdate(
+    state: VehicleState | null,
+    update: VehicleFeedUpdate,
+    source: VehicleSourceKind,
+    full: boolean,
+    nowMs: number
+): VehicleState {
+    const incoming = update.vehicles.map((o) => toSnapshotVehicle(o, nowMs));
+
+    let vehicles = incoming;
+    if (!full && state) {
+        const byId = new Map<string, SnapshotVehicle>();
+        for (const v of state.vehicles) {
+            if (v.vehicleId !== null) byId.set(v.vehicleId, v);
+        }
+        const withoutId: SnapshotVehicle[] = [];
+        for (const v of incoming) {
+            if (v.vehicleId === null) withoutId.push(v);
+            else byId.set(v.vehicleId, v);
+        }
+        vehicles = [...byId.values(), ...withoutId];
+    }
+
+    return {
+        source,
+        fetchedAtMs: nowMs,
+        fullFetchedAtMs: full || !state ? nowMs : state.fullFetchedAtMs,
+        lastTimeMs: update.lastTimeMs ?? (full ? null : state?.lastTimeMs ?? null),
+        vehicles: vehicles.filter((v) => v.reportedAtMs === null || nowMs - v.reportedAtMs <= VEHICLE_MAX_AGE_MS),
+    };
+}
+
+/**
+ * The state's vehicles as observations, with `secsSinceReport` measured from `nowMs`.
+ */
+export function snapshotObservations(state: VehicleState, nowMs: number): VehicleObservation[] {
+    return state.vehicles.map(({ reportedAtMs, ...o }) => ({
+        ...o,
+        secsSinceReport:
+            reportedAtMs === null ? o.secsSinceReport : Math.max(0, Math.round((nowMs - reportedAtMs) / MS_PER_SEC)),
+    }));
+}
+
+function parseVehicleState(raw: unknown): VehicleState | null {
+    let parsed: unknown = raw;
+    if (typeof raw === 'string') {
+        try {
+            parsed = JSON.parse(raw) as unknown;
+        } catch {
+            return null;
+        }
+    }
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    const obj = parsed as Partial<VehicleState>;
+    if (typeof obj.source !== 'string' || typeof obj.fetchedAtMs !== 'number') return null;
+    if (typeof obj.fullFetchedAtMs !== 'number' || !Array.isArray(obj.vehicles)) return null;
+    return {
+        source: obj.source,
+        fetchedAtMs: obj.fetchedAtMs,
+        fullFetchedAtMs: obj.fullFetchedAtMs,
+        lastTimeMs: typeof obj.lastTimeMs === 'number' ? obj.lastTimeMs : null,
+        vehicles: obj.vehicles,
+    };
+}
+
+function isUsable(state: VehicleState | null, source: VehicleSource, maxAgeMs: number, nowMs: number): state is VehicleState {
+    return !!state && state.source === source.kind && nowMs - state.fetchedAtMs < maxAgeMs;
+}
+
+async function fetchVehicleState(source: VehicleSource, base: VehicleState | null, nowMs: number): Promise<VehicleState> {
+    if (!source.fetchVehicleUpdate) {
+        const vehicles = await source.fetchVehicles(nowMs);
+        return mergeVehicleUpdate(null, { vehicles, lastTimeMs: null }, source.kind, true, nowMs);
+    }
+
+    const incremental =
+        isUsable(base, source, FULL_REFRESH_INTERVAL_MS, nowMs) &&
+        base.lastTimeMs !== null &&
+        nowMs - base.fullFetchedAtMs < FULL_REFRESH_INTERVAL_MS;
+    const update = await source.fetchVehicleUpdate(nowMs, incremental ? base.lastTimeMs : null);
+    return mergeVehicleUpdate(incremental ? base : null, update, source.kind, !incremental, nowMs);
+}
+
+/**
+ * KV is only worth it across serverless instances; local backends run in a single process
+ * where the in-memory snapshot is already shared.
+ */
+async function getSharedKvClient(): Promise<KvClient | null> {
+    try {
+        return getStorageBackend() === 'vercel-kv' ? await getKvClient() : null;
+    } catch (error) {
+        console.warn('Snapshot cache: storage unavailable, caching in memory only:', error);
+        return null;
+    }
+}
+
+async function claimRefresh(client: KvClient, nowMs: number): Promise<string | null> {
+    const token = `${nowMs}:${Math.random().toString(36).slice(2)}`;
+    const result = await client.set(KV_REFRESH_CLAIM_KEY, token, { nx: true, px: REFRESH_CLAIM_TTL_MS });
+    return result === 'OK' ? token : null;
+}
+
+async function releaseRefresh(client: KvClient, token: string): Promise<void> {
+    if ((await client.get(KV_REFRESH_CLAIM_KEY)) === token) await client.del(KV_REFRESH_CLAIM_KEY);
+}
+
+async function loadVehicleState(source: VehicleSource, nowMs: number): Promise<VehicleState> {
+    const kv = await getSharedKvClient();
+    let base = memoryState;
+    let token: string | null = null;
+
+    if (kv) {
+        try {
+            const shared = parseVehicleState(await kv.get(KV_SNAPSHOT_KEY));
+            if (shared && shared.source === source.kind && (!base || shared.fetchedAtMs > base.fetchedAtMs)) {
+                base = shared;
+            }
+            if (isUsable(base, source, SNAPSHOT_TTL_MS, nowMs)) return base;
+
+            token = await claimRefresh(kv, nowMs);
+            // Another instance is refreshing: serve what we have if it's recent enough.
+            if (token === null && isUsable(base, source, STALE_SNAPSHOT_MAX_AGE_MS, nowMs)) return base;
+        } catch (error) {
+            console.warn('Snapshot cache: KV read failed, fetching upstream:', error);
+        }
+    }
+
+    try {
+        const next = await fetchVehicleState(source, base, nowMs);
+        if (kv) {
+            try {
+                await kv.set(KV_SNAPSHOT_KEY, JSON.stringify(next), { px: KV_SNAPSHOT_TTL_MS });
+            } catch (error) {
+                console.warn('Snapshot cache: KV write failed:', error);
+            }
+        }
+        return next;
+    } finally {
+        if (kv && token !== null) await releaseRefresh(kv, token).catch(() => {});
+    }
+}
+
+/**
+ * Current vehicles from `source`, served from the shared snapshot when it is fresh.
+ */
+export async function fetchSnapshotVehicles(source: VehicleSource, nowMs: number): Promise<VehicleSnapshot> {
+    let state = memoryState;
+    if (!isUsable(state, source, SNAPSHOT_TTL_MS, nowMs)) {
+        inFlight ??= loadVehicleState(source, nowMs)
+            .then((loaded) => {
+                memoryState = loaded;
+                return loaded;
+            })
+            .finally(() => {
+                inFlight = null;
+            });
+        state = await inFlight;
+    }
+    return { fetchedAtMs: state.fetchedAtMs, observations: snapshotObservations(state, nowMs) };
+}
@@ -0,0 +1,219 @@
+import { readFile } from 'fs/promises';
+import GtfsRealtimeBindings from 'gtfs-realtime-bindings';
+import {
+    VEHICLE_LOCATIONS_URL,
+    createFeedParser,
+    parseVehicleLocations,
+    parseVehicleLocationsLastTime,
+    vehicleLocationsSinceUrl,
+    type VehicleObservation,
+} from './ingest';
+import { createReplaySource, getReplayOptions } from './replay';
+
+/**
+ * Pluggable vehicle data sources.
+ *
+ * Every source yields the same normalized `VehicleObservation[]`, so the per-route speed
+ * pipeline in `./ingest` does not care where vehicles came from.
+ *
+ * Configuration (environment):
+ * - `TTC_VEHICLE_SOURCE`: `nextbus` (default), `gtfs-rt` or `replay`
+ * - `GTFS_RT_VEHICLE_POSITIONS_URL`: GTFS-Realtime `VehiclePositions` feed URL (for `gtfs-rt`)
+ * - `GTFS_RT_VEHICLE_POSITIONS_FILE`: local protobuf file path, used instead of the URL when set
+ * - `TTC_REPLAY_DIR`, `TTC_REPLAY_START`, `TTC_REPLAY_SPEED`: recorded data to replay (see `./replay`)
+ */
+
+export type VehicleSourceKind = 'nextbus' | 'gtfs-rt' | 'replay';
+
+/**
+ * Result of an incremental poll: the vehicles that reported since the requested time, plus the
+ * feed's own `lastTime` to pass to the next poll.
+ */
+export type VehicleFeedUpdate = {
+    vehicles: VehicleObservation[];
+    lastTimeMs: number | null;
+};
+
+export type VehicleSource = {
+    kind: VehicleSourceKind;
+    fetchVehicles: (nowMs: number) => Promise<VehicleObservation[]>;
+    /**
+     * Incremental polling, for feeds that support it (NextBus `t=`). `sinceMs: null` asks for
+     * every current vehicle, like `fetchVehicles`.
+     */
+    fetchVehicleUpdate?: (nowMs: number, sinceMs: number | null) => Promise<VehicleFeedUpdate>;
+    /**
+     * Feed time for a wall-clock time, for sources that play back at their own time and speed
+     * (replay). Live sources omit it and run on wall-clock time.
+     */
+    clock?: (nowMs: number) => number;
+};
+
+/**
+ * Thrown when an upstream feed responds with a non-2xx status.
+ *
+ * `status` is the upstream HTTP status so handlers can pass it through.
+ */
+export class FeedFetchError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'FeedFetchError';
+        this.status = status;
+    }
+}
+
+const MS_PER_SEC = 1000;
+const MPS_TO_KMH = 3.6;
+
+// Replay keeps its playback clock and loaded recording for the life of the process.
+let replaySource: VehicleSource | null = null;
+
+export function createNextBusSource(url: string = VEHICLE_LOCATIONS_URL): VehicleSource {
+    async function fetchVehicleUpdate(_nowMs: number, sinceMs: number | null): Promise<VehicleFeedUpdate> {
+        const response = await fetch(sinceMs === null ? url : vehicleLocationsSinceUrl(sinceMs, url));
+        if (!response.ok) {
+            throw new FeedFetchError(`Failed to fetch vehicleLocations (${response.status})`, response.status);
+        }
+
+        const json: unknown = createFeedParser().parse(await response.text());
+        return { vehicles: parseVehicleLocations(json), lastTimeMs: parseVehicleLocationsLastTime(json) };
+    }
+
+    return {
+        kind: 'nextbus',
+        async fetchVehicles(nowMs) {
+            return (await fetchVehicleUpdate(nowMs, null)).vehicles;
+        },
+        fetchVehicleUpdate,
+    };
+}
+
+type Int64Like = number | { toNumber: () => number } | null | undefined;
+
+function int64ToNumber(value: Int64Like): number | null {
+    if (value === null || value === undefined) return null;
+    const n = typeof value === 'number' ? value : value.toNumber();
+    return Number.isFinite(n) ? n : null;
+}
+
+function finiteOrNull(value: number | null | undefined): number | null {
+    if (value === null || value === undefined) return null;
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Read an optional protobuf field only if it was actually present on the wire.
+ *
+ * Decoded messages expose proto2 defaults (e.g. `speed = 0`) via the prototype, which would
+ * otherwise turn "not reported" into "stopped".
+ */
+function presentField<T extends object, K extends keyof T>(message: T | null | undefined, key: K): T[K] | null {
+    if (!message || !Object.prototype.hasOwnProperty.call(message, key)) return null;
+    return message[key];
+}
+
+/**
+ * Decode a GTFS-Realtime `FeedMessage` and keep its `VehiclePosition` entities.
+ *
+ * Field mapping onto `VehicleObservation`:
+ * - `trip.routeId` -> `routeTag` (entities without a route are skipped)
+ * - `trip.directionId` -> `dirTag` (as a string, e.g. `"0"`/`"1"`)
+ * - `position.speed` (m/s) -> `speedKmh`; negative/non-finite speeds are treated as missing
+ * - report age is derived from the vehicle timestamp, falling back to the feed header timestamp
+ * - GTFS-RT has no equivalent of NextBus `predictable`, so it is always `null`
+ */
+export function parseGtfsRtVehiclePositions(bytes: Uint8Array, nowMs: number): VehicleObservation[] {
+    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(bytes);
+    const headerTimestampSec = int64ToNumber(presentField(feed.header, 'timestamp'));
+
+    const out: VehicleObservation[] = [];
+    for (const entity of feed.entity) {
+        const vp = entity.vehicle;
+        if (!vp) continue;
+
+        const routeTag = vp.trip?.routeId?.trim() ?? '';
+        if (routeTag.length === 0) continue;
+
+        const speedMps = finiteOrNull(presentField(vp.position, 'speed'));
+        const speedKmh = speedMps === null || speedMps < 0 ? null : parseFloat((speedMps * MPS_TO_KMH).toFixed(1));
+        const reportedAtSec = int64ToNumber(presentField(vp, 'timestamp')) ?? headerTimestampSec;
+        const secsSinceReport =
+            reportedAtSec === null ? null : Math.max(0, Math.round(nowMs / MS_PER_SEC - reportedAtSec));
+        const directionId = presentField(vp.trip, 'directionId');
+
+        out.push({
+            vehicleId: vp.vehicle?.id || entity.id || null,
+            routeTag,
+            dirTag: directionId === null || directionId === undefined ? null : String(directionId),
+            lat: finiteOrNull(presentField(vp.position, 'latitude')),
+            lon: finiteOrNull(presentField(vp.position, 'longitude')),
+            heading: finiteOrNull(presentField(vp.position, 'bearing')),
+            speedKmh,
+            speedSource: speedKmh === null ? null : 'reported',
+            secsSinceReport,
+            predictable: null,
+        });
+    }
+    return out;
+}
+
+export function createGtfsRtSource(location: { url: string } | { file: string }): VehicleSource {
+    return {
+        kind: 'gtfs-rt',
+        async fetchVehicles(nowMs) {
+            if ('file' in location) {
+                const bytes = await readFile(location.file);
+                return parseGtfsRtVehiclePositions(new Uint8Array(bytes), nowMs);
+            }
+
+            const response = await fetch(location.url);
+            if (!response.ok) {
+                throw new FeedFetchError(`Failed to fetch GTFS-RT VehiclePositions (${response.status})`, response.status);
+            }
+
+            const buffer = await response.arrayBuffer();
+            return parseGtfsRtVehiclePositions(new Uint8Array(buffer), nowMs);
+        },
+    };
+}
+
+/**
+ * Resolve the configured vehicle source from environment variables.
+ *
+ * Misconfiguration (e.g. `gtfs-rt` without a URL or file) throws, since silently falling back
+ * to a different feed would make the numbers mean something else.
+ */
+export function getVehicleSource(): VehicleSource {
+    const kind = (process.env.TTC_VEHICLE_SOURCE ?? '').trim().toLowerCase() || 'nextbus';
+
+    if (kind === 'nextbus') return createNextBusSource();
+
+    if (kind === 'gtfs-rt') {
+        const file = (process.env.GTFS_RT_VEHICLE_POSITIONS_FILE ?? '').trim();
+        if (file) return createGtfsRtSource({ file });
+
+        const url = (process.env.GTFS_RT_VEHICLE_POSITIONS_URL ?? '').trim();
+        if (url) return createGtfsRtSource({ url });
+
+        throw new Error('TTC_VEHICLE_SOURCE=gtfs-rt requires GTFS_RT_VEHICLE_POSITIONS_URL or GTFS_RT_VEHICLE_POSITIONS_FILE');
+    }
+
+    if (kind === 'replay') {
+        replaySource ??= createReplaySource(getReplayOptions());
+        return replaySource;
+    }
+
+    throw new Error(`Unknown TTC_VEHICLE_SOURCE: ${kind}`);
+}
+
+/**
+ * Whether the configured source plays back recorded data on its own clock (replay).
+ *
+ * History must not be written then: the samples would be stored at wall-clock time with
+ * speeds from another day, mixing a recording into the real averages.
+ */
+export function isPlaybackSource(): boolean {
+    return getVehicleSource().clock !== undefined;
+}
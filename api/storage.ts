@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { sleep } from './http';
+import type { KvClient, KvPipeline, KvSetOptions } from './kv';
+
+/**
+ * Non-Vercel storage backends behind the `KvClient` surface.
+ *
+ * - `memory`: a process-local map. History lasts as long as the process (dev, tests, a
+ *   single long-running server).
+ * - `file`: one small JSON file per key in a directory, so history survives restarts on a
+ *   self-hosted box. Several processes can share the directory (e.g. `npm run sampler` next to
+ *   `vercel dev`): every read goes to disk, every write takes a directory lock, and a write
+ *   only replaces its own key's file (temp file + rename, so readers never see half a value).
+ *   `NX` claims are checked under the same lock, so they hold across processes.
+ *
+ * Values are stored as the strings callers write; readers already accept either strings or
+ * the pre-parsed JSON the Vercel KV client returns.
+ */
+
+type MapStore = {
+    values: Map<string, string>;
+    /** Expiry (ms since epoch) for keys set with `px`. */
+    expiresAtMs: Map<string, number>;
+};
+
+function deleteKey(store: MapStore, key: string): boolean {
+    store.expiresAtMs.delete(key);
+    return store.values.delete(key);
+}
+
+function readKey(store: MapStore, key: string): string | null {
+    const expiresAtMs = store.expiresAtMs.get(key);
+    if (expiresAtMs !== undefined && expiresAtMs <= Date.now()) deleteKey(store, key);
+    return store.values.get(key) ?? null;
+}
+
+function writeKey(store: MapStore, key: string, value: string, opts?: KvSetOptions): void {
+    store.values.set(key, value);
+    if (opts) store.expiresAtMs.set(key, Date.now() + opts.px);
+    else store.expiresAtMs.delete(key);
+}
+
+type PendingOp = { kind: 'set'; key: string; value: string; opts?: KvSetOptions } | { kind: 'del'; key: string };
+
+function createPipeline(exec: (ops: PendingOp[]) => Promise<void>): KvPipeline {
+    const pending: PendingOp[] = [];
+    const pipeline: KvPipeline = {
+        set: (key, value, opts) => {
+            pending.push({ kind: 'set', key, value, opts });
+            return pipeline;
+        },
+        del: (key) => {
+            pending.push({ kind: 'del', key });
+            return pipeline;
+        },
+        exec: async () => {
+            await exec(pending.splice(0));
+            return 'OK';
+        },
+    };
+    return pipeline;
+}
+
+export function createMemoryKvClient(): KvClient {
+    const store: MapStore = { values: new Map(), expiresAtMs: new Map() };
+    return {
+        get: async (key) => readKey(store, key),
+        mget: async (...keys) => keys.map((k) => readKey(store, k)),
+        set: async (key, value, opts?: KvSetOptions) => {
+            // Check-and-set happens synchronously, so it is atomic within the process.
+            if (opts && 'nx' in opts && readKey(store, key) !== null) return null;
+            writeKey(store, key, value, opts);
+            return 'OK';
+        },
+        del: async (key) => (deleteKey(store, key) ? 1 : 0),
+        pipeline: () =>
+            createPipeline(async (ops) => {
+                for (const op of ops) {
+                    if (op.kind === 'set') writeKey(store, op.key, op.value, op.opts);
+                    else deleteKey(store, op.key);
+                }
+            }),
+    };
+}
+
+/** On-disk entry: the value and its expiry (ms since epoch), if any. */
+type FileEntry = { v: string; x: number | null };
+
+const LOCK_FILE = '.lock';
+const ENTRY_SUFFIX = '.json';
+const LOCK_RETRY_MS = 5;
+// A lock older than this was left by a process that died while holding it. Writes hold it for
+// one key or one pipeline, and the expiry sweep for one bounded batch, so this sits far above
+// any real hold, even on a slow disk.
+const LOCK_STALE_MS = 2 * 60 * 1000;
+// How often (per process) expired key files are swept from the directory.
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+// Expired files removed per lock hold during a sweep.
+const PURGE_BATCH_SIZE = 100;
+
+function isNotFound(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
+
+function entryPath(dir: string, key: string): string {
+    return path.join(dir, `${encodeURIComponent(key)}${ENTRY_SUFFIX}`);
+}
+
+function isLive(entry: FileEntry | null, nowMs: number): entry is FileEntry {
+    return entry !== null && (entry.x === null || entry.x > nowMs);
+}
+
+async function readEntry(file: string): Promise<FileEntry | null> {
+    let raw: string;
+    try {
+        raw = await fs.promises.readFile(file, 'utf-8');
+    } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+    }
+    try {
+        const parsed = JSON.parse(raw) as Partial<FileEntry> | null;
+        if (typeof parsed?.v !== 'string') return null;
+        return { v: parsed.v, x: typeof parsed.x === 'number' ? parsed.x : null };
+    } catch {
+        console.warn(`Storage: ignoring unreadable entry ${file}`);
+        return null;
+    }
+}
+
+async function writeEntry(file: string, entry: FileEntry): Promise<void> {
+    // Only one writer at a time (under the directory lock), so a fixed temp name is safe.
+    const tmpPath = `${file}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(entry), 'utf-8');
+    await fs.promises.rename(tmpPath, file);
+}
+
+async function removeEntry(file: string): Promise<boolean> {
+    try {
+        await fs.promises.unlink(file);
+        return true;
+    } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+    }
+}
+
+/**
+ * Run `fn` holding the directory's lock file (created with `wx`, so only one process
+ * at a time gets it).
+ */
+async function withDirLock<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = path.join(dir, LOCK_FILE);
+    for (;;) {
+        try {
+            await fs.promises.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+            break;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+            const stat = await fs.promises.stat(lockPath).catch(() => null);
+            if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+                console.warn(`Storage: removing stale lock ${lockPath}`);
+                await fs.promises.rm(lockPath, { force: true });
+            } else {
+                await sleep(LOCK_RETRY_MS);
+            }
+        }
+    }
+    try {
+        return await fn();
+    } finally {
+        await fs.promises.rm(lockPath, { force: true });
+    }
+}
+
+export function createFileKvClient(dir: string): KvClient {
+    fs.mkdirSync(dir, { recursive: true });
+    let lastPurgeMs = 0;
+
+    async function get(key: string): Promise<string | null> {
+        const entry = await readEntry(entryPath(dir, key));
+        return isLive(entry, Date.now()) ? entry.v : null;
+    }
+
+    /**
+     * Sweep expired key files. The directory is scanned without the lock; candidates are then
+     * removed in batches, each under the lock and re-checked first (another process may have
+     * rewritten the key since the scan).
+     */
+    async function purgeExpired(): Promise<void> {
+        const nowMs = Date.now();
+        if (nowMs - lastPurgeMs < PURGE_INTERVAL_MS) return;
+        lastPurgeMs = nowMs;
+
+        const expired: string[] = [];
+        for (const name of await fs.promises.readdir(dir)) {
+            if (!name.endsWith(ENTRY_SUFFIX)) continue;
+            const file = path.join(dir, name);
+            const entry = await readEntry(file);
+            if (entry && !isLive(entry, nowMs)) expired.push(file);
+        }
+
+        for (let i = 0; i < expired.length; i += PURGE_BATCH_SIZE) {
+            await withDirLock(dir, async () => {
+                for (const file of expired.slice(i, i + PURGE_BATCH_SIZE)) {
+                    const entry = await readEntry(file);
+                    if (entry && !isLive(entry, Date.now())) await removeEntry(file);
+                }
+            });
+        }
+    }
+
+    /** Apply writes under the directory lock (sweeping expired keys now and then, after it). */
+    async function mutate<T>(fn: () => Promise<T>): Promise<T> {
+        const result = await withDirLock(dir, fn);
+        await purgeExpired();
+        return result;
+    }
+
+    function entryFor(value: string, opts?: KvSetOptions): FileEntry {
+        return { v: value, x: opts ? Date.now() + opts.px : null };
+    }
+
+    return {
+        get,
+        mget: (...keys) => Promise.all(keys.map(get)),
+        set: (key, value, opts?: KvSetOptions) =>
+            mutate(async () => {
+                const file = entryPath(dir, key);
+                if (opts && 'nx' in opts && isLive(await readEntry(file), Date.now())) return null;
+                await writeEntry(file, entryFor(value, opts));
+                return 'OK';
+            }),
+        del: (key) => mutate(async () => ((await removeEntry(entryPath(dir, key))) ? 1 : 0)),
+        // Batch writes so a sampling pass takes the lock once rather than once per key.
+        pipeline: () =>
+            createPipeline((ops) =>
+                mutate(async () => {
+                    for (const op of ops) {
+                        const file = entryPath(dir, op.key);
+                        if (op.kind === 'set') await writeEntry(file, entryFor(op.value, op.opts));
+                        else await removeEntry(file);
+                    }
+                })
+            ),
+    };
+}
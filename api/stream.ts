@@ -0,0 +1,131 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { firstQueryValue, sleep } from './http';
+import { AGGREGATION_STATS, type AggregationStat } from './ingest';
+import { diffLeaderboard, getLeaderboardFrame, parseAggregationParam, type LiveRouteSpeed } from './leaderboard';
+import { FeedFetchError } from './sources';
+
+const STREAM_TICK_MS = 1000;
+const HEARTBEAT_MS = 15 * 1000;
+// Serverless functions have a maximum duration (see `vercel.json`): end the response before
+// it and let EventSource reconnect, resuming from `Last-Event-ID`.
+const STREAM_DURATION_MS = 55 * 1000;
+const RECONNECT_DELAY_MS = 1000;
+
+// Recently sent frames by event id, so a reconnecting client only gets what changed since its
+// last event. Per instance: a reconnect that lands elsewhere starts with a full snapshot.
+const MAX_REMEMBERED_FRAMES = 120;
+const sentFrames = new Map<string, LiveRouteSpeed[]>();
+
+function frameId(stat: AggregationStat, builtAtMs: number): string {
+    return `${stat}.${builtAtMs}`;
+}
+
+function rememberFrame(id: string, routes: LiveRouteSpeed[]): void {
+    sentFrames.delete(id);
+    sentFrames.set(id, routes);
+    for (const oldest of sentFrames.keys()) {
+        if (sentFrames.size <= MAX_REMEMBERED_FRAMES) break;
+        sentFrames.delete(oldest);
+    }
+}
+
+function resumeFrom(req: VercelRequest, stat: AggregationStat): LiveRouteSpeed[] | null {
+    const header = req.headers['last-event-id'];
+    const lastEventId = (Array.isArray(header) ? header[0] : header) ?? firstQueryValue(req.query.lastEventId);
+    if (!lastEventId || !lastEventId.startsWith(`${stat}.`)) return null;
+    return sentFrames.get(lastEventId) ?? null;
+}
+
+function writeEvent(res: VercelResponse, event: string, data: unknown, id?: string): void {
+    const idLine = id === undefined ? '' : `id: ${id}\n`;
+    res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Live leaderboard as Server-Sent Events.
+ *
+ * `GET /api/stream?aggregation=mean|median|trimmed|moving`
+ *
+ * Events (`data` is JSON):
+ * - `snapshot`: every route, same shape as `/api/ttc`. Sent first unless resuming.
+ * - `delta`: `{ changed, removed }`, with the routes whose displayed speed, title, averages or
+ *   direction rows changed and the tags of routes that are gone. Only sent when something changed.
+ * - `feed-error`: `{ error, status }` when the upstream feed starts failing; the stream keeps
+ *   retrying every tick.
+ *
+ * Every `snapshot`/`delta` has an id. EventSource sends the last one back as `Last-Event-ID`
+ * when it reconnects (or pass `?lastEventId=`), and the stream resumes with a delta from that
+ * frame if this instance still remembers it. Each response ends after about a minute.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    const stat = parseAggregationParam(req.query.aggregation);
+    if (stat === null) {
+        return res.status(400).json({
+            error: `Invalid aggregation (expected one of: ${AGGREGATION_STATS.join(', ')})`,
+        });
+    }
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+        // Don't let proxies buffer the stream.
+        'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    let closed = false;
+    req.on('close', () => {
+        closed = true;
+    });
+
+    let sent = resumeFrom(req, stat);
+    const startedAtMs = Date.now();
+    let lastWriteMs = startedAtMs;
+    let feedFailing = false;
+
+    while (!closed && Date.now() - startedAtMs < STREAM_DURATION_MS) {
+        const tickMs = Date.now();
+        try {
+            const frame = await getLeaderboardFrame(tickMs, stat);
+            const id = frameId(stat, frame.builtAtMs);
+
+            if (sent === null) {
+                writeEvent(res, 'snapshot', frame.routes, id);
+                rememberFrame(id, frame.routes);
+                lastWriteMs = tickMs;
+            } else if (sent !== frame.routes) {
+                const delta = diffLeaderboard(sent, frame.routes);
+                if (delta.changed.length > 0 || delta.removed.length > 0) {
+                    writeEvent(res, 'delta', delta, id);
+                    rememberFrame(id, frame.routes);
+                    lastWriteMs = tickMs;
+                }
+            }
+            // A frame with no displayed changes still becomes the baseline: the client shows
+            // the same values either way.
+            sent = frame.routes;
+            feedFailing = false;
+        } catch (error) {
+            if (!(error instanceof FeedFetchError)) console.error('Error streaming TTC data:', error);
+            // Report the start of an outage once, not on every retry.
+            if (!feedFailing) {
+                writeEvent(res, 'feed-error', {
+                    error: 'Failed to fetch TTC data',
+                    status: error instanceof FeedFetchError ? error.status : 500,
+                });
+                lastWriteMs = tickMs;
+            }
+            feedFailing = true;
+        }
+
+        if (Date.now() - lastWriteMs >= HEARTBEAT_MS) {
+            res.write(': ping\n\n');
+            lastWriteMs = Date.now();
+        }
+        await sleep(Math.max(0, STREAM_TICK_MS - (Date.now() - tickMs)));
+    }
+
+    res.end();
+}
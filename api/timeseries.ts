@@ -0,0 +1,98 @@
+import { round1 } from './ingest';
+
+/**
+ * Downsampling of per-minute speed samples (or hourly/daily rollups) into fixed-width time
+ * buckets.
+ */
+
+/** A minute sample, or a rollup entry weighted by its `n` minute samples. */
+export type SeriesInput = {
+    t: number;
+    v: number;
+    n?: number;
+};
+
+export type SeriesPoint = {
+    t: number; // bucket start (ms since epoch)
+    /** Mean of the samples in the bucket, or `null` when the bucket has none (a gap). */
+    speedKmh: number | null;
+    /** Minute samples behind the bucket. */
+    sampleCount: number;
+};
+
+export type SeriesGap = {
+    startMs: number;
+    endMs: number; // exclusive
+};
+
+export type DownsampledSeries = {
+    points: SeriesPoint[];
+    /** Consecutive empty buckets merged into ranges. */
+    gaps: SeriesGap[];
+};
+
+const DURATION_UNITS_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a compact duration such as `5m`, `24h` or `7d` into milliseconds.
+ *
+ * Returns `null` for anything else (including zero or negative amounts).
+ */
+export function parseDurationMs(value: string): number | null {
+    const match = /^(\d+)\s*([mhd])$/i.exec(value.trim());
+    if (!match) return null;
+    const amount = Number(match[1]);
+    if (!Number.isFinite(amount) || amount <= 0) return null;
+    return amount * DURATION_UNITS_MS[match[2].toLowerCase()];
+}
+
+/**
+ * Downsample samples into `resolutionMs` buckets covering `[startMs, endMs)`.
+ *
+ * Buckets are aligned to multiples of `resolutionMs` (so series for different routes line up)
+ * and every bucket in range is emitted, with `speedKmh: null` where no samples exist. Rollup
+ * entries count as `n` samples each, so a bucket's mean is weighted the same way as the
+ * rolling averages.
+ */
+export function downsampleSamples(
+    samples: SeriesInput[],
+    startMs: number,
+    endMs: number,
+    resolutionMs: number
+): DownsampledSeries {
+    const firstBucketMs = Math.floor(startMs / resolutionMs) * resolutionMs;
+    const bucketCount = Math.max(0, Math.ceil((endMs - firstBucketMs) / resolutionMs));
+
+    const sums = new Array<number>(bucketCount).fill(0);
+    const counts = new Array<number>(bucketCount).fill(0);
+    for (const s of samples) {
+        if (s.t < startMs || s.t >= endMs) continue;
+        const index = Math.floor((s.t - firstBucketMs) / resolutionMs);
+        if (index < 0 || index >= bucketCount) continue;
+        const weight = s.n ?? 1;
+        sums[index] += s.v * weight;
+        counts[index] += weight;
+    }
+
+    const points: SeriesPoint[] = [];
+    const gaps: SeriesGap[] = [];
+    for (let i = 0; i < bucketCount; i++) {
+        const t = firstBucketMs + i * resolutionMs;
+        const n = counts[i];
+        points.push({ t, speedKmh: n > 0 ? round1(sums[i] / n) : null, sampleCount: n });
+
+        if (n > 0) continue;
+        const lastGap = gaps[gaps.length - 1];
+        if (lastGap && lastGap.endMs === t) {
+            lastGap.endMs = t + resolutionMs;
+        } else {
+            gaps.push({ startMs: t, endMs: t + resolutionMs });
+        }
+    }
+
+    return { points, gaps };
+}
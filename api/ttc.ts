@@ -1,215 +1,47 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { XMLParser } from 'fast-xml-parser';
-import { getAvg24hSpeedsByRouteTag, type LiveRouteSample } from './avg24h';
-import { getKvClient } from './kv';
+import { isNotModified, setCacheHeaders, type CachePolicy } from './httpCache';
+import { AGGREGATION_STATS } from './ingest';
+import { getLeaderboardFrame, parseAggregationParam } from './leaderboard';
+import { FeedFetchError } from './sources';
 
-function asArray<T>(value: T | T[] | null | undefined): T[] {
-    if (!value) return [];
-    return Array.isArray(value) ? value : [value];
-}
-
-type LiveRouteSpeed = {
-    routeTag: string;
-    routeTitle: string | null;
-    liveSpeedKmh: number;
-    /**
-     * Whether 24h averages are available for this response.
-     *
-     * If persistence (Vercel KV) is not configured or KV calls fail, this will be `false`
-     * and `avg24hSpeedKmh` will be `null` (live speeds still return).
-     */
-    avg24hAvailable: boolean;
-    avg24hSpeedKmh: number | null;
-    vehicleCount: number;
-    updatedAt: string; // ISO string
-};
-
-type RouteTitlesCache = {
-    fetchedAtMs: number;
-    titlesByRouteTag: Record<string, string>;
-};
-
-let routeTitlesCache: RouteTitlesCache | null = null;
-const ROUTE_TITLES_TTL_MS = 60 * 60 * 1000; // 1 hour
-
-/**
- * Fetch TTC route titles (tag -> title) from NextBus/UmoIQ route metadata.
- *
- * Endpoint: `command=routeList&a=ttc`
- *
- * Notes:
- * - This is best-effort: if metadata fetch fails, we return the last cached value (if any) or `{}`.
- * - Titles are *not* hardcoded; callers should fall back gracefully if a title is missing.
- */
-async function getRouteTitlesByTag(parser: XMLParser): Promise<Record<string, string>> {
-    const now = Date.now();
-    if (routeTitlesCache && now - routeTitlesCache.fetchedAtMs < ROUTE_TITLES_TTL_MS) {
-        return routeTitlesCache.titlesByRouteTag;
-    }
-
-    try {
-        const resp = await fetch(
-            'https://webservices.umoiq.com/service/publicXMLFeed?command=routeList&a=ttc'
-        );
-        if (!resp.ok) {
-            throw new Error(`Failed to fetch routeList (${resp.status})`);
-        }
-
-        const xml = await resp.text();
-        const json = parser.parse(xml);
-
-        // Feed shape guard: `body.route` may be an array OR a single object.
-        const routes = asArray<Record<string, unknown>>(json?.body?.route);
-        const titlesByRouteTag: Record<string, string> = {};
-
-        for (const route of routes) {
-            const tag = route['@_tag'];
-            const title = route['@_title'];
-            if (typeof tag !== 'string' || tag.length === 0) continue;
-            if (typeof title !== 'string' || title.length === 0) continue;
-            titlesByRouteTag[tag] = title;
-        }
-
-        routeTitlesCache = { fetchedAtMs: now, titlesByRouteTag };
-        return titlesByRouteTag;
-    } catch {
-        // Degrade gracefully: keep serving live speeds even if route titles cannot be fetched.
-        return routeTitlesCache?.titlesByRouteTag ?? {};
-    }
-}
+// Clients poll once per second; the CDN answers repeat polls for a second and keeps serving
+// the previous payload while it revalidates (the upstream snapshot only refreshes every 5s).
+const CACHE_POLICY: CachePolicy = { sMaxAgeSec: 1, staleWhileRevalidateSec: 4 };
 
 /**
- * Parse and validate TTC/UmoIQ `speedKmHr` values.
+ * Live per-route speeds with rolling averages.
  *
- * Rule (Iteration 6):
- * - Missing/empty/non-numeric values are invalid and ignored.
- * - Negative values are invalid and ignored.
- * - 0 is considered a valid speed (stopped vehicle) and is included in averages.
+ * `GET /api/ttc?aggregation=mean|median|trimmed|moving`
  *
- * This keeps aggregates deterministic and prevents `NaN`/`Infinity` from propagating.
+ * Responses carry an `ETag` (a hash of the body) and `Last-Modified` (when the vehicle data was
+ * fetched upstream). A matching `If-None-Match` gets `304 Not Modified`.
  */
-function parseSpeedKmh(value: unknown): number | null {
-    if (value === null || value === undefined) return null;
-    const raw = String(value).trim();
-    if (raw.length === 0) return null;
-
-    const n = Number(raw);
-    if (!Number.isFinite(n)) return null;
-    if (n < 0) return null;
-
-    return n;
-}
-
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     try {
         const nowMs = Date.now();
-        const response = await fetch(
-            'https://webservices.umoiq.com/service/publicXMLFeed?command=vehicleLocations&a=ttc'
-        );
-
-        if (!response.ok) {
-            return res.status(response.status).json({ error: 'Failed to fetch TTC data' });
-        }
-
-        const xmlData = await response.text();
-
-        // Parse XML to JSON
-        const parser = new XMLParser({
-            ignoreAttributes: false,
-            attributeNamePrefix: '@_',
-        });
-        const jsonData = parser.parse(xmlData);
-
-        // Feed shape guard:
-        // - `body.vehicle` may be an array OR a single object depending on how many vehicles exist.
-        // - It may also be missing entirely if the feed is empty or changes shape.
-        const vehicles = asArray<Record<string, unknown>>(jsonData?.body?.vehicle);
-        const trams: { [key: string]: { total_speed: number, total_trams: number } } = {};
-
-        for (const vehicle of vehicles) {
-            const route = vehicle['@_routeTag'];
-            if (typeof route !== 'string' || route.length === 0) {
-                // Unexpected/missing route tag; skip rather than throwing.
-                continue;
-            }
-            const speedKmh = parseSpeedKmh(vehicle['@_speedKmHr']);
-            if (speedKmh === null) {
-                // Invalid speed values are excluded from averages.
-                continue;
-            }
-            if (!trams[route]) {
-                trams[route] = {
-                    total_speed: 0,
-                    total_trams: 0
-                };
-            }
-            // Speed definition:
-            // - Source: TTC/UmoIQ (NextBus) `vehicleLocations` feed attribute `speedKmHr`
-            // - Units: km/h (instantaneous per-vehicle speed as reported in the feed)
-            // - Per-route speed is the *simple arithmetic mean* of valid `speedKmHr` samples
-            //   across active vehicles on that route. See `parseSpeedKmh(...)` for validation rules.
-            trams[route].total_speed += speedKmh;
-            trams[route].total_trams += 1;
+        const stat = parseAggregationParam(req.query.aggregation);
+        if (stat === null) {
+            return res.status(400).json({
+                error: `Invalid aggregation (expected one of: ${AGGREGATION_STATS.join(', ')})`,
+            });
         }
 
-        const average_speeds: { [key: string]: number } = {};
+        const { routes, etag, updatedAtMs } = await getLeaderboardFrame(nowMs, stat);
 
-        for (const route of Object.keys(trams)) {
-            if (trams[route].total_trams <= 0) continue;
-            average_speeds[route] = parseFloat((trams[route].total_speed / trams[route].total_trams).toFixed(1));
-        }
-
-        const sorted_average_speeds = Object.entries(average_speeds).sort(
-            ([routeTagA, speedA], [routeTagB, speedB]) => {
-                // Deterministic ordering to reduce UI jitter:
-                // - Primary: live speed (desc)
-                // - Secondary: routeTag (asc)
-                const speedDiff = speedB - speedA;
-                if (speedDiff !== 0) return speedDiff;
-                return routeTagA.localeCompare(routeTagB, undefined, { numeric: true });
-            }
-        );
-        const routeTitlesByTag = await getRouteTitlesByTag(parser);
-
-        const updatedAt = new Date(nowMs).toISOString();
-        const baseRoutes = sorted_average_speeds.map(([routeTag, speed]) => ({
-            routeTag,
-            routeTitle: routeTitlesByTag[routeTag] ?? null,
-            liveSpeedKmh: speed,
-            vehicleCount: trams[routeTag]?.total_trams ?? 0,
-            updatedAt,
-        }));
+        // Set CORS headers to allow requests from your frontend
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        setCacheHeaders(res, etag, updatedAtMs, CACHE_POLICY);
 
-        let avg24hAvailable = false;
-        let avg24hByRouteTag: Record<string, number | null> = {};
-        try {
-            const kv = await getKvClient();
-            if (kv) {
-                avg24hAvailable = true;
-                const samples: LiveRouteSample[] = baseRoutes.map((r) => ({
-                    routeTag: r.routeTag,
-                    liveSpeedKmh: r.liveSpeedKmh,
-                }));
-                avg24hByRouteTag = await getAvg24hSpeedsByRouteTag(kv, samples, nowMs);
-            }
-        } catch {
-            // Degrade gracefully if KV is misconfigured/unavailable or the KV call fails.
-            avg24hAvailable = false;
-            avg24hByRouteTag = {};
+        if (isNotModified(req, etag)) {
+            return res.status(304).end();
         }
 
-        const routes: LiveRouteSpeed[] = baseRoutes.map((r) => ({
-            ...r,
-            avg24hAvailable,
-            avg24hSpeedKmh: avg24hAvailable ? (avg24hByRouteTag[r.routeTag] ?? null) : null,
-        }));
-
-        // Set CORS headers to allow requests from your frontend
-        res.setHeader('Access-Control-Allow-Origin', '*');
         res.setHeader('Content-Type', 'application/json');
-
         return res.status(200).json(routes);
     } catch (error) {
+        if (error instanceof FeedFetchError) {
+            return res.status(error.status).json({ error: 'Failed to fetch TTC data' });
+        }
         console.error('Error fetching TTC data:', error);
         return res.status(500).json({ error: 'Internal server error' });
     }
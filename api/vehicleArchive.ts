@@ -0,0 +1,101 @@
+import type { VehicleObservation } from './ingest';
+
+/**
+ * Compact per-poll encoding of raw vehicle observations for the archive (`cache-speeds --vehicles`).
+ *
+ * One archive line per poll. Vehicles are stored as rows of a small table, so field names are
+ * written once per poll rather than once per vehicle:
+ *
+ *   {"timestampMs":…,"fetchedAtMs":…,"fields":["vehicleId","routeTag",…],"rows":[["4401","501",…],…]}
+ *
+ * Values are what the feed reported, before speed derivation and exclusions, so route speeds
+ * can be recomputed later under a different methodology. Readers look columns up by name, so
+ * fields can be added without breaking older files.
+ */
+
+export const VEHICLE_ARCHIVE_FIELDS = [
+    'vehicleId',
+    'routeTag',
+    'dirTag',
+    'lat',
+    'lon',
+    'heading',
+    'speedKmHr',
+    'secsSinceReport',
+    'predictable',
+] as const;
+
+type VehicleArchiveField = (typeof VEHICLE_ARCHIVE_FIELDS)[number];
+
+type VehicleArchiveValue = string | number | boolean | null;
+
+export type VehicleArchiveRecord = {
+    /** Collection time; `secsSinceReport` is relative to it. */
+    timestampMs: number;
+    /** When the vehicle data was fetched upstream. */
+    fetchedAtMs: number;
+    fields: string[];
+    rows: VehicleArchiveValue[][];
+};
+
+export function encodeVehicleArchiveRecord(
+    observations: VehicleObservation[],
+    timestampMs: number,
+    fetchedAtMs: number
+): VehicleArchiveRecord {
+    return {
+        timestampMs,
+        fetchedAtMs,
+        fields: [...VEHICLE_ARCHIVE_FIELDS],
+        rows: observations.map((o) => [
+            o.vehicleId,
+            o.routeTag,
+            o.dirTag,
+            o.lat,
+            o.lon,
+            o.heading,
+            // Derived speeds are never archived; re-deriving is part of the methodology.
+            o.speedSource === 'derived' ? null : o.speedKmh,
+            o.secsSinceReport,
+            o.predictable,
+        ]),
+    };
+}
+
+function asString(value: VehicleArchiveValue | undefined): string | null {
+    return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function asNumber(value: VehicleArchiveValue | undefined): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Decode a record back into observations, as `parseVehicleLocations` would have returned them. */
+export function decodeVehicleArchiveRecord(record: VehicleArchiveRecord): VehicleObservation[] {
+    const column = new Map(record.fields.map((field, i) => [field, i]));
+    const get = (row: VehicleArchiveValue[], field: VehicleArchiveField) => {
+        const i = column.get(field);
+        return i === undefined ? undefined : row[i];
+    };
+
+    const out: VehicleObservation[] = [];
+    for (const row of record.rows) {
+        const routeTag = asString(get(row, 'routeTag'));
+        if (routeTag === null) continue;
+        const speedKmh = asNumber(get(row, 'speedKmHr'));
+        const predictable = get(row, 'predictable');
+        out.push({
+            vehicleId: asString(get(row, 'vehicleId')),
+            routeTag,
+            dirTag: asString(get(row, 'dirTag')),
+            lat: asNumber(get(row, 'lat')),
+            lon: asNumber(get(row, 'lon')),
+            heading: asNumber(get(row, 'heading')),
+            speedKmh,
+            speedSource: speedKmh === null ? null : 'reported',
+            secsSinceReport: asNumber(get(row, 'secsSinceReport')),
+            predictable: typeof predictable === 'boolean' ? predictable : null,
+        });
+    }
+    return out;
+}
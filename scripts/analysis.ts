@@ -0,0 +1,338 @@
+import { percentile } from '../api/distribution';
+import { DAY_LABELS, HOURS_PER_WEEK, PROFILE_TIME_ZONE, hourOfWeekIndex } from '../api/hourOfWeek';
+import { round1 } from '../api/ingest';
+
+/**
+ * Per-route reports over archived speed records (`npm run analyze`).
+ *
+ * Every archived record is one route's speed at one minute, so statistics here are over
+ * minute samples, not vehicles. Calendar buckets use Toronto local time (`PROFILE_TIME_ZONE`),
+ * like the hour-of-week profiles; weeks start on Monday.
+ */
+
+export type AnalysisRecord = {
+    timestampMs: number;
+    routeTag: string;
+    routeTitle?: string | null;
+    speedKmh: number;
+};
+
+export type SpeedSummary = {
+    meanKmh: number;
+    minKmh: number;
+    p10Kmh: number;
+    p25Kmh: number;
+    medianKmh: number;
+    p75Kmh: number;
+    p90Kmh: number;
+    maxKmh: number;
+};
+
+export type BucketSpeed = {
+    speedKmh: number | null;
+    sampleCount: number;
+};
+
+export type PeriodSpeed = {
+    day: string; // Mon … Sun
+    hour: number;
+    speedKmh: number;
+    sampleCount: number;
+};
+
+export type WeekSpeed = BucketSpeed & {
+    weekStart: string; // YYYY-MM-DD (local Monday)
+    /** Change from the previous week in the report; `null` for the first week or an empty neighbour. */
+    changeKmh: number | null;
+    changePct: number | null;
+};
+
+export type RouteReport = {
+    routeTag: string;
+    routeTitle: string | null;
+    sampleCount: number;
+    firstSampleAt: string;
+    lastSampleAt: string;
+    summary: SpeedSummary;
+    hourOfDay: Array<BucketSpeed & { hour: number }>;
+    dayOfWeek: Array<BucketSpeed & { day: string }>;
+    slowestPeriods: PeriodSpeed[];
+    fastestPeriods: PeriodSpeed[];
+    weekly: WeekSpeed[];
+};
+
+export type RouteAccumulator = {
+    routeTag: string;
+    routeTitle: string | null;
+    speeds: number[];
+    firstMs: number;
+    lastMs: number;
+    hourOfWeek: Array<{ sum: number; n: number }>;
+    weeks: Map<string, { sum: number; n: number }>;
+};
+
+export type AnalysisAccumulator = Map<string, RouteAccumulator>;
+
+// Hour-of-week slots with fewer minute samples are left out of slowest/fastest rankings.
+const MIN_PERIOD_SAMPLES = 30;
+const RANKED_PERIODS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let localDateFormatter: Intl.DateTimeFormat | null = null;
+
+// Records from one poll share a timestamp; avoid re-running Intl for each route.
+let lastCalendarMs: number | null = null;
+let lastCalendar = { hourOfWeek: 0, weekStart: '' };
+
+/** Local Monday (YYYY-MM-DD) of the week containing `ms`. */
+export function localWeekStart(ms: number): string {
+    if (!localDateFormatter) {
+        localDateFormatter = new Intl.DateTimeFormat('en-CA', {
+            timeZone: PROFILE_TIME_ZONE,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+        });
+    }
+    const localDate = localDateFormatter.format(new Date(ms)); // YYYY-MM-DD
+    const day = Math.floor(hourOfWeekIndex(ms) / 24);
+    return new Date(Date.parse(`${localDate}T00:00:00.000Z`) - day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function calendar(ms: number): { hourOfWeek: number; weekStart: string } {
+    if (lastCalendarMs !== ms) {
+        lastCalendar = { hourOfWeek: hourOfWeekIndex(ms), weekStart: localWeekStart(ms) };
+        lastCalendarMs = ms;
+    }
+    return lastCalendar;
+}
+
+export function createAnalysisAccumulator(): AnalysisAccumulator {
+    return new Map();
+}
+
+/** Fold one archived record into `acc`. Records may arrive in any order. */
+export function accumulateRecord(acc: AnalysisAccumulator, record: AnalysisRecord): void {
+    if (!Number.isFinite(record.timestampMs) || !Number.isFinite(record.speedKmh)) return;
+
+    let route = acc.get(record.routeTag);
+    if (!route) {
+        route = {
+            routeTag: record.routeTag,
+            routeTitle: null,
+            speeds: [],
+            firstMs: record.timestampMs,
+            lastMs: record.timestampMs,
+            hourOfWeek: Array.from({ length: HOURS_PER_WEEK }, () => ({ sum: 0, n: 0 })),
+            weeks: new Map(),
+        };
+        acc.set(record.routeTag, route);
+    }
+
+    // Keep the most recent title (routes are occasionally renamed).
+    if (record.routeTitle && record.timestampMs >= route.lastMs) route.routeTitle = record.routeTitle;
+    route.routeTitle ??= record.routeTitle ?? null;
+    route.firstMs = Math.min(route.firstMs, record.timestampMs);
+    route.lastMs = Math.max(route.lastMs, record.timestampMs);
+    route.speeds.push(record.speedKmh);
+
+    const { hourOfWeek, weekStart } = calendar(record.timestampMs);
+    route.hourOfWeek[hourOfWeek].sum += record.speedKmh;
+    route.hourOfWeek[hourOfWeek].n += 1;
+    const week = route.weeks.get(weekStart) ?? { sum: 0, n: 0 };
+    week.sum += record.speedKmh;
+    week.n += 1;
+    route.weeks.set(weekStart, week);
+}
+
+function bucketSpeed(sum: number, n: number): BucketSpeed {
+    return { speedKmh: n > 0 ? round1(sum / n) : null, sampleCount: n };
+}
+
+function summarize(speeds: number[]): SpeedSummary {
+    const values = [...speeds].sort((a, b) => a - b);
+    let total = 0;
+    for (const v of values) total += v;
+    return {
+        meanKmh: round1(total / values.length),
+        minKmh: round1(values[0]),
+        p10Kmh: round1(percentile(values, 10)),
+        p25Kmh: round1(percentile(values, 25)),
+        medianKmh: round1(percentile(values, 50)),
+        p75Kmh: round1(percentile(values, 75)),
+        p90Kmh: round1(percentile(values, 90)),
+        maxKmh: round1(values[values.length - 1]),
+    };
+}
+
+function weeklySpeeds(weeks: Map<string, { sum: number; n: number }>): WeekSpeed[] {
+    const out: WeekSpeed[] = [];
+    for (const weekStart of [...weeks.keys()].sort()) {
+        const { sum, n } = weeks.get(weekStart)!;
+        const current = bucketSpeed(sum, n);
+        const previous = out[out.length - 1]?.speedKmh ?? null;
+        const changeKmh = previous === null || current.speedKmh === null ? null : round1(current.speedKmh - previous);
+        const changePct =
+            previous === null || previous === 0 || changeKmh === null
+                ? null
+                : round1(((current.speedKmh! - previous) / previous) * 100);
+        out.push({ weekStart, ...current, changeKmh, changePct });
+    }
+    return out;
+}
+
+export function buildRouteReport(route: RouteAccumulator): RouteReport {
+    const periods: PeriodSpeed[] = route.hourOfWeek
+        .map((b, index) => ({ index, ...b }))
+        .filter((b) => b.n >= MIN_PERIOD_SAMPLES)
+        .map((b) => ({
+            day: DAY_LABELS[Math.floor(b.index / 24)],
+            hour: b.index % 24,
+            speedKmh: round1(b.sum / b.n),
+            sampleCount: b.n,
+        }));
+    const bySpeed = [...periods].sort((a, b) => a.speedKmh - b.speedKmh);
+
+    return {
+        routeTag: route.routeTag,
+        routeTitle: route.routeTitle,
+        sampleCount: route.speeds.length,
+        firstSampleAt: new Date(route.firstMs).toISOString(),
+        lastSampleAt: new Date(route.lastMs).toISOString(),
+        summary: summarize(route.speeds),
+        hourOfDay: Array.from({ length: 24 }, (_, hour) => {
+            let sum = 0;
+            let n = 0;
+            for (let day = 0; day < 7; day++) {
+                sum += route.hourOfWeek[day * 24 + hour].sum;
+                n += route.hourOfWeek[day * 24 + hour].n;
+            }
+            return { hour, ...bucketSpeed(sum, n) };
+        }),
+        dayOfWeek: DAY_LABELS.map((day, d) => {
+            let sum = 0;
+            let n = 0;
+            for (let hour = 0; hour < 24; hour++) {
+                sum += route.hourOfWeek[d * 24 + hour].sum;
+                n += route.hourOfWeek[d * 24 + hour].n;
+            }
+            return { day, ...bucketSpeed(sum, n) };
+        }),
+        slowestPeriods: bySpeed.slice(0, RANKED_PERIODS),
+        fastestPeriods: bySpeed.slice(-RANKED_PERIODS).reverse(),
+        weekly: weeklySpeeds(route.weeks),
+    };
+}
+
+export function buildReports(acc: AnalysisAccumulator): RouteReport[] {
+    return [...acc.values()]
+        .map(buildRouteReport)
+        .sort((a, b) => a.routeTag.localeCompare(b.routeTag, undefined, { numeric: true }));
+}
+
+function formatSpeed(v: number | null): string {
+    return v === null ? '-' : v.toFixed(1);
+}
+
+function formatSigned(v: number | null, suffix = ''): string {
+    if (v === null) return '-';
+    return `${v > 0 ? '+' : ''}${v.toFixed(1)}${suffix}`;
+}
+
+function textTable(header: string[], rows: string[][]): string {
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+    const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+    return [line(header), widths.map((w) => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+}
+
+function formatPeriod(p: PeriodSpeed): string {
+    return `${p.day} ${String(p.hour).padStart(2, '0')}:00 ${p.speedKmh.toFixed(1)} km/h`;
+}
+
+/** Human-readable report for one route. */
+export function formatRouteReport(report: RouteReport): string {
+    const { summary } = report;
+    const title = report.routeTitle ? `${report.routeTag} ${report.routeTitle}` : report.routeTag;
+    const sections = [
+        `=== ${title} ===`,
+        `${report.sampleCount} minute samples, ${report.firstSampleAt} … ${report.lastSampleAt}`,
+        '',
+        textTable(
+            ['mean', 'min', 'p10', 'p25', 'median', 'p75', 'p90', 'max'],
+            [
+                [
+                    summary.meanKmh,
+                    summary.minKmh,
+                    summary.p10Kmh,
+                    summary.p25Kmh,
+                    summary.medianKmh,
+                    summary.p75Kmh,
+                    summary.p90Kmh,
+                    summary.maxKmh,
+                ].map(formatSpeed),
+            ]
+        ),
+        '',
+        `Hour of day (km/h, ${PROFILE_TIME_ZONE}):`,
+        textTable(
+            report.hourOfDay.map((h) => String(h.hour)),
+            [report.hourOfDay.map((h) => formatSpeed(h.speedKmh))]
+        ),
+        '',
+        'Day of week (km/h):',
+        textTable(
+            report.dayOfWeek.map((d) => d.day),
+            [report.dayOfWeek.map((d) => formatSpeed(d.speedKmh))]
+        ),
+        '',
+        `Slowest hours: ${report.slowestPeriods.map(formatPeriod).join(', ') || '-'}`,
+        `Fastest hours: ${report.fastestPeriods.map(formatPeriod).join(', ') || '-'}`,
+        '',
+        'Week over week:',
+        textTable(
+            ['week of', 'km/h', 'change', 'samples'],
+            report.weekly.map((w) => [
+                w.weekStart,
+                formatSpeed(w.speedKmh),
+                w.changeKmh === null ? '-' : `${formatSigned(w.changeKmh)} (${formatSigned(w.changePct, '%')})`,
+                String(w.sampleCount),
+            ])
+        ),
+    ];
+    return sections.join('\n');
+}
+
+function csvCell(value: string | number | null): string {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Long-format CSV: one row per route × section × period, ready for a spreadsheet pivot.
+ * `section` is `summary`, `hour`, `day`, `slowest`, `fastest` or `week`.
+ */
+export function reportsToCsv(reports: RouteReport[]): string {
+    const rows: Array<Array<string | number | null>> = [
+        ['routeTag', 'routeTitle', 'section', 'period', 'speedKmh', 'sampleCount', 'changeKmh', 'changePct'],
+    ];
+    for (const r of reports) {
+        const row = (
+            section: string,
+            period: string | number,
+            speedKmh: number | null,
+            sampleCount: number,
+            changeKmh: number | null = null,
+            changePct: number | null = null
+        ) => rows.push([r.routeTag, r.routeTitle, section, period, speedKmh, sampleCount, changeKmh, changePct]);
+
+        for (const [stat, value] of Object.entries(r.summary)) row('summary', stat.replace(/Kmh$/, ''), value, r.sampleCount);
+        for (const h of r.hourOfDay) row('hour', h.hour, h.speedKmh, h.sampleCount);
+        for (const d of r.dayOfWeek) row('day', d.day, d.speedKmh, d.sampleCount);
+        for (const p of r.slowestPeriods) row('slowest', `${p.day} ${p.hour}`, p.speedKmh, p.sampleCount);
+        for (const p of r.fastestPeriods) row('fastest', `${p.day} ${p.hour}`, p.speedKmh, p.sampleCount);
+        for (const w of r.weekly) row('week', w.weekStart, w.speedKmh, w.sampleCount, w.changeKmh, w.changePct);
+    }
+    return `${rows.map((r) => r.map(csvCell).join(',')).join('\n')}\n`;
+}
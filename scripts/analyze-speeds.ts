@@ -0,0 +1,140 @@
+#!/usr/bin/env tsx
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listArchiveFiles, migrateLegacyArchiveFile, readArchive, type ArchiveReadOptions } from '../api/archive';
+import {
+    accumulateRecord,
+    buildReports,
+    createAnalysisAccumulator,
+    formatRouteReport,
+    reportsToCsv,
+    type AnalysisRecord,
+} from './analysis';
+
+// Configuration
+const CACHE_DIR = path.join(process.cwd(), 'speed-cache');
+const ARCHIVE: ArchiveReadOptions = { dir: CACHE_DIR, prefix: 'speed' };
+// Single-file JSON cache written by earlier versions; migrated into daily files on first use.
+const LEGACY_CACHE_FILE = path.join(CACHE_DIR, 'speed-data.json');
+
+const USAGE = `Usage: npm run analyze -- [route...] [--days N | --from DATE] [--to DATE] [--format table|csv|json] [--out FILE]
+
+  route...        Route tags to report on (default: every archived route)
+  --days N        Only the last N days
+  --from DATE     Start (inclusive), ISO date or date-time; dates are UTC midnight
+  --to DATE       End (exclusive)
+  --format        table (default), csv or json
+  --out FILE      Write to FILE instead of stdout`;
+
+type OutputFormat = 'table' | 'csv' | 'json';
+
+type AnalyzeOptions = {
+    routeTags: string[];
+    fromMs?: number;
+    toMs?: number;
+    format: OutputFormat;
+    outFile: string | null;
+};
+
+function fail(message: string): never {
+    console.error(message);
+    console.error(`\n${USAGE}`);
+    process.exit(1);
+}
+
+function parseDate(flag: string, value: string | undefined): number {
+    const ms = value ? Date.parse(value) : NaN;
+    if (!Number.isFinite(ms)) fail(`Invalid ${flag} date: ${value ?? '(missing)'}`);
+    return ms;
+}
+
+function parseArgs(argv: string[]): AnalyzeOptions {
+    const options: AnalyzeOptions = { routeTags: [], format: 'table', outFile: null };
+    // Both set the start of the range, so only one of them may be given.
+    let startFlag: string | null = null;
+    const claimStart = (flag: string) => {
+        if (startFlag !== null && startFlag !== flag) fail('Pass either --days or --from, not both');
+        startFlag = flag;
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--days': {
+                claimStart(arg);
+                const days = Number(argv[++i]);
+                if (!Number.isFinite(days) || days <= 0) fail(`Invalid --days: ${argv[i]}`);
+                options.fromMs = Date.now() - days * 24 * 60 * 60 * 1000;
+                break;
+            }
+            case '--from':
+                claimStart(arg);
+                options.fromMs = parseDate(arg, argv[++i]);
+                break;
+            case '--to':
+                options.toMs = parseDate(arg, argv[++i]);
+                break;
+            case '--format': {
+                const format = argv[++i];
+                if (format !== 'table' && format !== 'csv' && format !== 'json') fail(`Invalid --format: ${format}`);
+                options.format = format;
+                break;
+            }
+            case '--out':
+                options.outFile = argv[++i] ?? fail('--out needs a file name');
+                break;
+            case '--help':
+                console.log(USAGE);
+                process.exit(0);
+                break;
+            default:
+                if (arg.startsWith('--')) fail(`Unknown option: ${arg}`);
+                options.routeTags.push(arg);
+        }
+    }
+    return options;
+}
+
+async function main(): Promise<void> {
+    const options = parseArgs(process.argv.slice(2));
+    const migrated = await migrateLegacyArchiveFile(ARCHIVE, LEGACY_CACHE_FILE);
+    // stderr, so it doesn't end up in CSV/JSON written to stdout.
+    if (migrated !== null) console.warn(`Migrated ${migrated} records from ${LEGACY_CACHE_FILE} into daily files`);
+    if (listArchiveFiles(ARCHIVE).length === 0) {
+        console.error(`No archive found in ${CACHE_DIR}. Run \`npm run cache-speeds\` first.`);
+        process.exit(1);
+    }
+
+    const routeFilter = options.routeTags.length > 0 ? new Set(options.routeTags) : null;
+    const acc = createAnalysisAccumulator();
+    for await (const record of readArchive<AnalysisRecord>({ ...ARCHIVE, fromMs: options.fromMs, toMs: options.toMs })) {
+        if (routeFilter && !routeFilter.has(record.routeTag)) continue;
+        accumulateRecord(acc, record);
+    }
+
+    const reports = buildReports(acc);
+    for (const routeTag of options.routeTags) {
+        if (!acc.has(routeTag)) console.error(`Route ${routeTag}: no archived records in range`);
+    }
+
+    let output: string;
+    if (options.format === 'json') {
+        output = `${JSON.stringify({ source: CACHE_DIR, generatedAt: new Date().toISOString(), routes: reports }, null, 2)}\n`;
+    } else if (options.format === 'csv') {
+        output = reportsToCsv(reports);
+    } else {
+        output = `${reports.map(formatRouteReport).join('\n\n')}\n`;
+    }
+
+    if (options.outFile) {
+        fs.writeFileSync(options.outFile, output, 'utf-8');
+        console.error(`Wrote ${reports.length} route reports to ${options.outFile}`);
+    } else {
+        process.stdout.write(output);
+    }
+}
+
+main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+});
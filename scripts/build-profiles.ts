@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listArchiveFiles, migrateLegacyArchiveFile, readArchive, type ArchiveReadOptions } from '../api/archive';
+import {
+    DAY_LABELS,
+    PROFILE_TIME_ZONE,
+    accumulateProfile,
+    emptyProfile,
+    toProfileBuckets,
+    type HourOfWeekProfile,
+} from '../api/hourOfWeek';
+
+// Configuration
+const CACHE_DIR = path.join(process.cwd(), 'speed-cache');
+const ARCHIVE: ArchiveReadOptions = { dir: CACHE_DIR, prefix: 'speed' };
+// Single-file JSON cache written by earlier versions; migrated into daily files on first use.
+const LEGACY_CACHE_FILE = path.join(CACHE_DIR, 'speed-data.json');
+const OUTPUT_FILE = path.join(CACHE_DIR, 'hour-of-week-profiles.json');
+
+// Only the fields this script needs from the cache-speeds archive format.
+type ArchivedRecord = {
+    timestampMs: number;
+    routeTag: string;
+    speedKmh: number;
+};
+
+async function buildProfiles(): Promise<{ profilesByRouteTag: Record<string, HourOfWeekProfile>; recordCount: number }> {
+    const profilesByRouteTag: Record<string, HourOfWeekProfile> = {};
+    let recordCount = 0;
+    for await (const record of readArchive<ArchivedRecord>(ARCHIVE)) {
+        if (!profilesByRouteTag[record.routeTag]) {
+            profilesByRouteTag[record.routeTag] = emptyProfile();
+        }
+        accumulateProfile(profilesByRouteTag[record.routeTag], [{ t: record.timestampMs, v: record.speedKmh }]);
+        recordCount++;
+    }
+    return { profilesByRouteTag, recordCount };
+}
+
+function printProfile(routeTag: string, profile: HourOfWeekProfile): void {
+    const buckets = toProfileBuckets(profile);
+    console.log(`\nRoute ${routeTag} — mean speed (km/h) by hour of week, ${PROFILE_TIME_ZONE}`);
+    console.log(`     ${Array.from({ length: 24 }, (_, h) => String(h).padStart(4)).join('')}`);
+    for (let day = 0; day < 7; day++) {
+        const row = buckets
+            .slice(day * 24, day * 24 + 24)
+            .map((b) => (b.speedKmh === null ? '   -' : b.speedKmh.toFixed(0).padStart(4)))
+            .join('');
+        console.log(`${DAY_LABELS[day]}  ${row}`);
+    }
+}
+
+async function main(): Promise<void> {
+    const routeFilter = process.argv.slice(2);
+    const migrated = await migrateLegacyArchiveFile(ARCHIVE, LEGACY_CACHE_FILE);
+    if (migrated !== null) console.log(`Migrated ${migrated} records from ${LEGACY_CACHE_FILE} into daily files`);
+    if (listArchiveFiles(ARCHIVE).length === 0) {
+        console.error(`No archive found in ${CACHE_DIR}. Run \`npm run cache-speeds\` first.`);
+        process.exit(1);
+    }
+    const { profilesByRouteTag, recordCount } = await buildProfiles();
+    const routeTags = Object.keys(profilesByRouteTag).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    const output = {
+        timeZone: PROFILE_TIME_ZONE,
+        source: CACHE_DIR,
+        routes: routeTags.map((routeTag) => {
+            const buckets = toProfileBuckets(profilesByRouteTag[routeTag]);
+            return {
+                routeTag,
+                buckets,
+                sampleCount: buckets.reduce((acc, b) => acc + b.sampleCount, 0),
+            };
+        }),
+        updatedAt: new Date().toISOString(),
+    };
+
+    fs.writeFileSync(OUTPUT_FILE, JSON.stringify(output, null, 2), 'utf-8');
+    console.log(`Built hour-of-week profiles for ${routeTags.length} routes from ${recordCount} records`);
+    console.log(`Written to: ${OUTPUT_FILE}`);
+
+    for (const routeTag of routeFilter) {
+        const profile = profilesByRouteTag[routeTag];
+        if (!profile) {
+            console.log(`\nRoute ${routeTag}: no archived records`);
+            continue;
+        }
+        printProfile(routeTag, profile);
+    }
+}
+
+main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+});
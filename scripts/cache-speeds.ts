@@ -1,14 +1,27 @@
 #!/usr/bin/env tsx
 
-import { XMLParser } from 'fast-xml-parser';
-import * as fs from 'fs';
 import * as path from 'path';
+import {
+    appendArchiveRecords,
+    compressClosedArchiveFiles,
+    listArchiveFiles,
+    migrateLegacyArchiveFile,
+    readArchive,
+    type ArchiveReadOptions,
+} from '../api/archive';
+import { collectLiveRouteSpeeds } from '../api/pipeline';
+import { isPlaybackSource } from '../api/sources';
+import { encodeVehicleArchiveRecord, type VehicleArchiveRecord } from '../api/vehicleArchive';
 
 // Configuration
 const FETCH_INTERVAL_MS = 60 * 1000; // 1 minute
 const DEFAULT_DURATION_DAYS = 30;
 const CACHE_DIR = path.join(process.cwd(), 'speed-cache');
-const CACHE_FILE = path.join(CACHE_DIR, 'speed-data.json');
+// Single-file JSON cache written by earlier versions; migrated into daily files on start.
+const LEGACY_CACHE_FILE = path.join(CACHE_DIR, 'speed-data.json');
+const ARCHIVE: ArchiveReadOptions = { dir: CACHE_DIR, prefix: 'speed' };
+// Raw per-vehicle observations (`--vehicles`), one line per poll.
+const VEHICLE_ARCHIVE: ArchiveReadOptions = { dir: CACHE_DIR, prefix: 'vehicles' };
 
 // Types
 type SpeedRecord = {
@@ -18,220 +31,131 @@ type SpeedRecord = {
     routeTitle: string | null;
     speedKmh: number;
     vehicleCount: number;
+    reportedSampleCount?: number; // absent in caches written before derived speeds existed
+    derivedSampleCount?: number;
 };
 
-type CacheData = {
-    startTime: string;
-    startTimeMs: number;
-    records: SpeedRecord[];
+type CollectOptions = {
+    gzipClosed: boolean;
+    archiveVehicles: boolean;
 };
 
-// Route title caching (1 hour TTL like api/ttc.ts)
-type RouteTitlesCache = {
-    fetchedAtMs: number;
-    titlesByRouteTag: Record<string, string>;
+type Sample = {
+    records: SpeedRecord[];
+    vehicles: VehicleArchiveRecord | null;
 };
 
-let routeTitlesCache: RouteTitlesCache | null = null;
-const ROUTE_TITLES_TTL_MS = 60 * 60 * 1000; // 1 hour
-
-// Utility functions from api/ttc.ts
-function asArray<T>(value: T | T[] | null | undefined): T[] {
-    if (!value) return [];
-    return Array.isArray(value) ? value : [value];
-}
-
-function parseSpeedKmh(value: unknown): number | null {
-    if (value === null || value === undefined) return null;
-    const raw = String(value).trim();
-    if (raw.length === 0) return null;
-
-    const n = Number(raw);
-    if (!Number.isFinite(n)) return null;
-    if (n < 0) return null;
-
-    return n;
-}
-
-async function getRouteTitlesByTag(parser: XMLParser): Promise<Record<string, string>> {
-    const now = Date.now();
-    if (routeTitlesCache && now - routeTitlesCache.fetchedAtMs < ROUTE_TITLES_TTL_MS) {
-        return routeTitlesCache.titlesByRouteTag;
-    }
-
-    try {
-        const resp = await fetch(
-            'https://webservices.umoiq.com/service/publicXMLFeed?command=routeList&a=ttc'
-        );
-        if (!resp.ok) {
-            console.warn(`Failed to fetch routeList (${resp.status}), continuing without titles`);
-            return routeTitlesCache?.titlesByRouteTag ?? {};
-        }
-
-        const xml = await resp.text();
-        const json = parser.parse(xml);
-
-        const routes = asArray<Record<string, unknown>>(json?.body?.route);
-        const titlesByRouteTag: Record<string, string> = {};
-
-        for (const route of routes) {
-            const tag = route['@_tag'];
-            const title = route['@_title'];
-            if (typeof tag !== 'string' || tag.length === 0) continue;
-            if (typeof title !== 'string' || title.length === 0) continue;
-            titlesByRouteTag[tag] = title;
-        }
-
-        routeTitlesCache = { fetchedAtMs: now, titlesByRouteTag };
-        return titlesByRouteTag;
-    } catch (error) {
-        console.warn('Error fetching route titles:', error);
-        return routeTitlesCache?.titlesByRouteTag ?? {};
-    }
-}
+type ArchiveStats = {
+    startMs: number | null;
+    endMs: number | null;
+    recordCount: number;
+    routeTags: Set<string>;
+};
 
-async function fetchCurrentSpeeds(): Promise<SpeedRecord[]> {
+async function fetchCurrentSpeeds(archiveVehicles: boolean): Promise<Sample> {
     const nowMs = Date.now();
     const timestamp = new Date(nowMs).toISOString();
 
     try {
-        const response = await fetch(
-            'https://webservices.umoiq.com/service/publicXMLFeed?command=vehicleLocations&a=ttc'
-        );
-
-        if (!response.ok) {
-            throw new Error(`Failed to fetch TTC data: ${response.status}`);
-        }
-
-        const xmlData = await response.text();
-
-        const parser = new XMLParser({
-            ignoreAttributes: false,
-            attributeNamePrefix: '@_',
-        });
-        const jsonData = parser.parse(xmlData);
-
-        const vehicles = asArray<Record<string, unknown>>(jsonData?.body?.vehicle);
-        const routeData: { [key: string]: { total_speed: number; total_trams: number } } = {};
-
-        for (const vehicle of vehicles) {
-            const route = vehicle['@_routeTag'];
-            if (typeof route !== 'string' || route.length === 0) {
-                continue;
-            }
-            const speedKmh = parseSpeedKmh(vehicle['@_speedKmHr']);
-            if (speedKmh === null) {
-                continue;
-            }
-            if (!routeData[route]) {
-                routeData[route] = {
-                    total_speed: 0,
-                    total_trams: 0
-                };
-            }
-            routeData[route].total_speed += speedKmh;
-            routeData[route].total_trams += 1;
-        }
-
-        const routeTitlesByTag = await getRouteTitlesByTag(parser);
-        const records: SpeedRecord[] = [];
-
-        for (const [routeTag, data] of Object.entries(routeData)) {
-            if (data.total_trams <= 0) continue;
-            const avgSpeed = parseFloat((data.total_speed / data.total_trams).toFixed(1));
-            records.push({
-                timestamp,
-                timestampMs: nowMs,
-                routeTag,
-                routeTitle: routeTitlesByTag[routeTag] ?? null,
-                speedKmh: avgSpeed,
-                vehicleCount: data.total_trams
-            });
-        }
-
-        return records;
+        // Same pipeline as api/ttc.ts so archived speeds match the web app.
+        const { routes, reportedObservations, fetchedAtMs } = await collectLiveRouteSpeeds(nowMs);
+
+        const records: SpeedRecord[] = routes.map((a) => ({
+            timestamp,
+            timestampMs: nowMs,
+            routeTag: a.routeTag,
+            routeTitle: a.routeTitle,
+            speedKmh: a.speedKmh,
+            vehicleCount: a.vehicleCount,
+            reportedSampleCount: a.reportedSampleCount,
+            derivedSampleCount: a.derivedSampleCount
+        }));
+
+        const vehicles =
+            archiveVehicles && reportedObservations.length > 0
+                ? encodeVehicleArchiveRecord(reportedObservations, nowMs, fetchedAtMs)
+                : null;
+
+        return { records, vehicles };
     } catch (error) {
         console.error('Error fetching speeds:', error);
-        return [];
-    }
-}
-
-function loadCache(): CacheData {
-    if (!fs.existsSync(CACHE_FILE)) {
-        const startTime = new Date().toISOString();
-        const startTimeMs = Date.now();
-        return { startTime, startTimeMs, records: [] };
-    }
-
-    try {
-        const content = fs.readFileSync(CACHE_FILE, 'utf-8');
-        const data = JSON.parse(content) as CacheData;
-        // Ensure startTimeMs exists for backward compatibility
-        if (!data.startTimeMs && data.records.length > 0) {
-            data.startTimeMs = data.records[0].timestampMs;
-        } else if (!data.startTimeMs) {
-            data.startTimeMs = Date.now();
-        }
-        return data;
-    } catch (error) {
-        console.error('Error loading cache, starting fresh:', error);
-        const startTime = new Date().toISOString();
-        const startTimeMs = Date.now();
-        return { startTime, startTimeMs, records: [] };
-    }
-}
-
-function saveCache(data: CacheData): void {
-    if (!fs.existsSync(CACHE_DIR)) {
-        fs.mkdirSync(CACHE_DIR, { recursive: true });
+        return { records: [], vehicles: null };
     }
-
-    fs.writeFileSync(CACHE_FILE, JSON.stringify(data, null, 2), 'utf-8');
 }
 
-async function collectSample(): Promise<void> {
+async function collectSample(options: CollectOptions): Promise<void> {
     console.log(`[${new Date().toISOString()}] Fetching speed data...`);
-    const records = await fetchCurrentSpeeds();
+    const { records, vehicles } = await fetchCurrentSpeeds(options.archiveVehicles);
     
+    if (vehicles) {
+        appendArchiveRecords(VEHICLE_ARCHIVE, [vehicles]);
+        console.log(`  Archived ${vehicles.rows.length} vehicle observations`);
+    }
+
     if (records.length === 0) {
         console.log('  No data fetched (possibly an error or no vehicles active)');
         return;
     }
 
-    const cache = loadCache();
-    cache.records.push(...records);
-    saveCache(cache);
-
+    appendArchiveRecords(ARCHIVE, records);
     console.log(`  Collected ${records.length} route speed records`);
-    console.log(`  Total records in cache: ${cache.records.length}`);
+
+    if (options.gzipClosed) {
+        try {
+            for (const archive of options.archiveVehicles ? [ARCHIVE, VEHICLE_ARCHIVE] : [ARCHIVE]) {
+                const days = await compressClosedArchiveFiles(archive, records[0].timestampMs);
+                for (const day of days) console.log(`  Compressed ${archive.prefix} archive for ${day}`);
+            }
+        } catch (error) {
+            // Leave the plain file in place; the next sample retries.
+            console.error('  Error compressing closed archive files:', error);
+        }
+    }
 }
 
-function printStats(cache: CacheData): void {
-    if (cache.records.length === 0) {
+async function readStats(): Promise<ArchiveStats> {
+    const stats: ArchiveStats = { startMs: null, endMs: null, recordCount: 0, routeTags: new Set() };
+    for await (const record of readArchive<SpeedRecord>(ARCHIVE)) {
+        stats.startMs = Math.min(stats.startMs ?? record.timestampMs, record.timestampMs);
+        stats.endMs = Math.max(stats.endMs ?? record.timestampMs, record.timestampMs);
+        stats.recordCount++;
+        stats.routeTags.add(record.routeTag);
+    }
+    return stats;
+}
+
+function printStats(stats: ArchiveStats): void {
+    if (stats.recordCount === 0 || stats.startMs === null || stats.endMs === null) {
         console.log('No data collected yet');
         return;
     }
 
-    const routeTags = new Set(cache.records.map(r => r.routeTag));
-    const startMs = cache.records[0].timestampMs;
-    const endMs = cache.records[cache.records.length - 1].timestampMs;
-    const durationHours = (endMs - startMs) / (1000 * 60 * 60);
+    const durationHours = (stats.endMs - stats.startMs) / (1000 * 60 * 60);
+    const files = listArchiveFiles(ARCHIVE);
 
     console.log('\n=== Cache Statistics ===');
-    console.log(`Start time: ${cache.startTime}`);
+    console.log(`Start time: ${new Date(stats.startMs).toISOString()}`);
     console.log(`Duration: ${durationHours.toFixed(2)} hours (${(durationHours / 24).toFixed(2)} days)`);
-    console.log(`Total records: ${cache.records.length}`);
-    console.log(`Unique routes: ${routeTags.size}`);
-    console.log(`Cache file: ${CACHE_FILE}`);
+    console.log(`Total records: ${stats.recordCount}`);
+    console.log(`Unique routes: ${stats.routeTags.size}`);
+    console.log(`Archive: ${CACHE_DIR} (${files.length} daily files${files.length > 0 ? `, ${files[0].day} … ${files[files.length - 1].day}` : ''})`);
     console.log('========================\n');
 }
 
 async function main(): Promise<void> {
-    const args = process.argv.slice(2);
+    const args = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+    const options: CollectOptions = {
+        gzipClosed: process.argv.includes('--gzip'),
+        archiveVehicles: process.argv.includes('--vehicles'),
+    };
     const durationDays = args.length > 0 ? parseInt(args[0], 10) : DEFAULT_DURATION_DAYS;
 
     if (isNaN(durationDays) || durationDays <= 0) {
-        console.error('Invalid duration. Usage: npm run cache-speeds [days]');
+        console.error('Invalid duration. Usage: npm run cache-speeds -- [days] [--gzip] [--vehicles]');
+        process.exit(1);
+    }
+    if (isPlaybackSource()) {
+        console.error('TTC_VEHICLE_SOURCE=replay: replayed data is never archived as collected speeds.');
         process.exit(1);
     }
 
@@ -241,18 +165,21 @@ async function main(): Promise<void> {
     console.log(`Collection interval: ${FETCH_INTERVAL_MS / 1000} seconds`);
     console.log(`Target duration: ${durationDays} days`);
     console.log(`Cache directory: ${CACHE_DIR}`);
+    console.log(`Gzip closed days: ${options.gzipClosed ? 'yes' : 'no'}`);
+    console.log(`Raw vehicle archive: ${options.archiveVehicles ? 'yes' : 'no'}`);
     console.log('=================================================\n');
     console.log('Press Ctrl+C to stop collection\n');
 
-    // Load existing cache to show stats
-    let cache = loadCache();
-    printStats(cache);
+    const migrated = await migrateLegacyArchiveFile(ARCHIVE, LEGACY_CACHE_FILE);
+    if (migrated !== null) console.log(`Migrated ${migrated} records from ${LEGACY_CACHE_FILE} into daily files`);
 
-    // Collect first sample immediately
-    await collectSample();
+    // Scan the existing archive once, for stats and the collection start time
+    const initialStats = await readStats();
+    printStats(initialStats);
 
-    // Reload cache so that startTimeMs matches the persisted cache created/updated by collectSample
-    cache = loadCache();
+    // Collect first sample immediately
+    await collectSample(options);
+    const startTimeMs = initialStats.startMs ?? Date.now();
 
     // Flag to control the collection loop
     let isRunning = true;
@@ -270,24 +197,21 @@ async function main(): Promise<void> {
 
         if (!isRunning) break;
 
-        await collectSample();
+        await collectSample(options);
         
         // Check if we've reached the target duration
-        // Use cached startTimeMs instead of reloading the entire file
         const nowMs = Date.now();
-        const elapsedDays = (nowMs - cache.startTimeMs) / (1000 * 60 * 60 * 24);
+        const elapsedDays = (nowMs - startTimeMs) / (1000 * 60 * 60 * 24);
         
         if (elapsedDays >= durationDays) {
             console.log(`\nTarget duration of ${durationDays} days reached.`);
-            const finalCache = loadCache();
-            printStats(finalCache);
+            printStats(await readStats());
             process.exit(0);
         }
     }
 
     // If we exit the loop due to SIGINT, show final stats
-    const finalCache = loadCache();
-    printStats(finalCache);
+    printStats(await readStats());
     process.exit(0);
 }
 
@@ -0,0 +1,36 @@
+#!/usr/bin/env tsx
+
+import { FIXTURES_DIR, startMockFeed } from './mockFeed';
+
+// Configuration
+const DEFAULT_PORT = 4010;
+
+const USAGE = `Usage: npm run mock-feed -- [port]
+
+Serves the publicXMLFeed fixtures in tests/fixtures/publicXMLFeed (default port ${DEFAULT_PORT}).`;
+
+async function main(): Promise<void> {
+    const arg = process.argv[2];
+    if (arg === '--help') {
+        console.log(USAGE);
+        return;
+    }
+    const port = arg === undefined ? DEFAULT_PORT : Number(arg);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        console.error(`Invalid port: ${arg}\n\n${USAGE}`);
+        process.exit(1);
+    }
+
+    const feed = await startMockFeed(port);
+    console.log(`Mock publicXMLFeed serving ${FIXTURES_DIR}`);
+    console.log(`Point the API at it with:\n\n  TTC_PUBLIC_XML_FEED_URL=${feed.url} vercel dev\n`);
+
+    process.on('SIGINT', () => {
+        feed.close().finally(() => process.exit(0));
+    });
+}
+
+main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+});
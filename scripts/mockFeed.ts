@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+
+/**
+ * Local mock of the UmoIQ/NextBus `publicXMLFeed`, served from XML fixtures.
+ *
+ * Supports the commands the app uses:
+ * - `vehicleLocations` (`t=` is accepted; the current fixture is returned either way)
+ * - `routeList`
+ * - `routeConfig&r=<tag>` (`routeConfig-<tag>.xml`, or the feed's `<Error>` body when missing)
+ *
+ * Point the API at it with `TTC_PUBLIC_XML_FEED_URL=<feed.url>` (read when `api/ingest` loads),
+ * or run it standalone with `npm run mock-feed`.
+ */
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'tests', 'fixtures', 'publicXMLFeed');
+
+export type MockFeedCommand = 'vehicleLocations' | 'routeList' | 'routeConfig';
+
+export type MockFeed = {
+    /** `publicXMLFeed` URL, e.g. `http://127.0.0.1:4010/service/publicXMLFeed`. */
+    url: string;
+    /** Query strings received, in order (e.g. `command=vehicleLocations&a=ttc`). */
+    requests: string[];
+    /** Serve `<name>.xml` for `command` from now on (e.g. `vehicleLocations-single`). */
+    useFixture: (command: Exclude<MockFeedCommand, 'routeConfig'>, name: string) => void;
+    /** Answer `command` with an HTTP error status until cleared with `null`. */
+    failWith: (command: MockFeedCommand, status: number | null) => void;
+    close: () => Promise<void>;
+};
+
+const FEED_PATH = '/service/publicXMLFeed';
+
+function readFixture(name: string): string | null {
+    const file = path.join(FIXTURES_DIR, `${name}.xml`);
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+}
+
+function feedError(message: string): string {
+    return `<?xml version="1.0" encoding="utf-8" ?>\n<body copyright="All data copyright Toronto Transit Commission 2026.">\n<Error shouldRetry="false">${message}</Error>\n</body>\n`;
+}
+
+export async function startMockFeed(port: number = 0): Promise<MockFeed> {
+    const requests: string[] = [];
+    const fixtures: Record<string, string> = { vehicleLocations: 'vehicleLocations', routeList: 'routeList' };
+    const failures = new Map<MockFeedCommand, number>();
+
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (url.pathname !== FEED_PATH) {
+            res.writeHead(404).end();
+            return;
+        }
+        requests.push(url.search.slice(1));
+
+        const command = url.searchParams.get('command') as MockFeedCommand | null;
+        const status = command ? failures.get(command) : undefined;
+        if (status !== undefined) {
+            res.writeHead(status, { 'Content-Type': 'text/plain' }).end(`mock ${command} failure`);
+            return;
+        }
+
+        let body: string | null;
+        if (command === 'vehicleLocations' || command === 'routeList') {
+            body = readFixture(fixtures[command]);
+        } else if (command === 'routeConfig') {
+            const routeTag = url.searchParams.get('r') ?? '';
+            body = readFixture(`routeConfig-${routeTag}`) ?? feedError(`Could not get route "${routeTag}"`);
+        } else {
+            body = feedError(`Command "${command ?? ''}" is not supported`);
+        }
+
+        // Like the real feed, errors in the request come back as 200 with an <Error> body.
+        res.writeHead(200, { 'Content-Type': 'text/xml; charset=utf-8' }).end(body ?? feedError('Missing fixture'));
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    const { port: boundPort } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${boundPort}${FEED_PATH}`,
+        requests,
+        useFixture: (command, name) => {
+            fixtures[command] = name;
+        },
+        failWith: (command, status) => {
+            if (status === null) failures.delete(command);
+            else failures.set(command, status);
+        },
+        close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+    };
+}
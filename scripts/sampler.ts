@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+
+import { readMissedBucketReport, SAMPLE_INTERVAL_MS, toBucketMs, type MissedRange } from '../api/avg24h';
+import { sleep } from '../api/http';
+import { getKvClient, getStorageBackend, type KvClient } from '../api/kv';
+import { runSamplerTick } from '../api/sampler';
+import { isPlaybackSource } from '../api/sources';
+
+// Configuration
+// Sample a few seconds into each minute so the bucket boundary is never ambiguous.
+const BUCKET_OFFSET_MS = 5 * 1000;
+// Retry a failed tick while there is still time left in the same bucket.
+const RETRY_DELAY_MS = 10 * 1000;
+
+function formatRange(range: MissedRange): string {
+    return `${new Date(range.startMs).toISOString()} → ${new Date(range.endMs).toISOString()} (${range.buckets} buckets)`;
+}
+
+/**
+ * Sample the current bucket, retrying until it succeeds, the bucket is over or `signal` aborts.
+ */
+async function sampleBucket(client: KvClient, signal: AbortSignal): Promise<void> {
+    const bucketMs = toBucketMs(Date.now());
+
+    while (toBucketMs(Date.now()) === bucketMs && !signal.aborted) {
+        try {
+            const tick = await runSamplerTick(client, Date.now());
+            const status = tick.sampled ? `sampled ${tick.routeCount} routes` : 'already sampled';
+            console.log(`[${new Date(tick.bucketMs).toISOString()}] ${status}`);
+            if (tick.missed) console.log(`  Missed: ${formatRange(tick.missed)}`);
+            return;
+        } catch (error) {
+            console.error(`[${new Date().toISOString()}] Sampling failed, retrying:`, error);
+            await sleep(RETRY_DELAY_MS, signal);
+        }
+    }
+    if (signal.aborted) return;
+
+    console.warn(`[${new Date(bucketMs).toISOString()}] Bucket missed (no successful sample before it ended)`);
+}
+
+async function main(): Promise<void> {
+    const backend = getStorageBackend();
+    const client = await getKvClient();
+    if (!backend || !client) {
+        console.error('No storage backend configured. Set TTC_STORAGE_BACKEND (file, vercel-kv) or the Vercel KV env vars.');
+        process.exit(1);
+    }
+    if (isPlaybackSource()) {
+        console.error('TTC_VEHICLE_SOURCE=replay: replayed data is never sampled into history.');
+        process.exit(1);
+    }
+    if (backend === 'memory') {
+        console.warn('TTC_STORAGE_BACKEND=memory: samples are lost when the worker exits.');
+    }
+
+    console.log('=================================================');
+    console.log('TTC Speed Sampler');
+    console.log('=================================================');
+    console.log(`Storage backend: ${backend}`);
+    console.log(`Sampling interval: ${SAMPLE_INTERVAL_MS / 1000} seconds`);
+    console.log('=================================================\n');
+
+    const report = await readMissedBucketReport(client, Date.now());
+    console.log(`Missed buckets in the last 24h: ${report.missedBucketCount}`);
+    for (const range of report.ranges) console.log(`  ${formatRange(range)}`);
+    console.log('\nPress Ctrl+C to stop sampling\n');
+
+    // Ctrl+C lets an in-flight tick finish, but cuts the wait for the next one short.
+    const stop = new AbortController();
+    process.on('SIGINT', () => {
+        console.log('\nStopping sampler...');
+        stop.abort();
+    });
+
+    // Catch up immediately on start (the current bucket may not have been sampled yet), then
+    // wake just after each bucket boundary. If the process was suspended and wakes late, the
+    // next tick samples right away and logs the skipped buckets.
+    while (!stop.signal.aborted) {
+        await sampleBucket(client, stop.signal);
+
+        const nowMs = Date.now();
+        const nextBucketAtMs = toBucketMs(nowMs) + SAMPLE_INTERVAL_MS + BUCKET_OFFSET_MS;
+        await sleep(Math.max(0, nextBucketAtMs - nowMs), stop.signal);
+    }
+
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+});
@@ -1,36 +1,37 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import './App.css'
 import LeaderboardPosition from './components/LeaderboardPosition'
-import { LeaderboardQueue, type LeaderboardData } from './LeaderboardQueue'
+import { LeaderboardQueue, type LeaderboardData, type LeaderboardDirection, type ServiceCategory, type TransitMode } from './LeaderboardQueue'
+import { useLiveRoutes, type ApiLiveRouteSpeed, type SpeedStat } from './useLiveRoutes'
 import { Analytics } from '@vercel/analytics/react'
 
-type ApiLiveRouteSpeed = {
-  routeTag: string;
-  routeTitle: string | null;
-  liveSpeedKmh: number;
-  avg24hAvailable: boolean;
-  avg24hSpeedKmh: number | null;
-  vehicleCount: number;
-  updatedAt: string;
-};
-
-type SortMetric = 'live' | 'avg24h';
-type TransitType = 'all' | 'bus' | 'streetcar' | 'subway';
-
-function getTransitType(routeNumber: string): 'bus' | 'streetcar' | 'subway' {
-  // TTC route numbering conventions:
-  // - Streetcars: 5xx routes (501, 504, 505, 506, 509, 510, 511, 512)
-  // - Subway/RT: Lines 1-4 (represented as "1", "2", "3", "4")
-  // - Buses: All other routes
-  if (routeNumber.startsWith('5') && routeNumber.length === 3) {
-    return 'streetcar';
-  }
-  if (routeNumber.length === 1 && ['1', '2', '3', '4'].includes(routeNumber)) {
-    return 'subway';
-  }
-  return 'bus';
-}
+type AverageMetric = 'avg1h' | 'avg24h' | 'avg7d' | 'avg30d';
+type SortMetric = 'live' | AverageMetric;
+
+const AVERAGE_OPTIONS: { value: AverageMetric; label: string; window: string }[] = [
+  { value: 'avg1h', label: '1h avg', window: '1h' },
+  { value: 'avg24h', label: '24h avg', window: '24h' },
+  { value: 'avg7d', label: '7d avg', window: '7d' },
+  { value: 'avg30d', label: '30d avg', window: '30d' },
+];
+const SPEED_STAT_OPTIONS: { value: SpeedStat; label: string; title: string }[] = [
+  { value: 'mean', label: 'Mean', title: 'Average of all vehicles on the route' },
+  { value: 'median', label: 'Median', title: 'Middle vehicle speed on the route' },
+  { value: 'trimmed', label: 'Trimmed', title: 'Average without the slowest and fastest 10% of vehicles' },
+  { value: 'moving', label: 'Moving', title: 'Average of moving vehicles only (excludes stopped vehicles)' },
+];
+// Modes come from the API (`mode`), classified from route metadata on the backend.
+type TransitType = 'all' | TransitMode;
+// Categories also come from the API (`serviceCategory`). Any combination can be selected;
+// none selected shows every category.
+const SERVICE_CATEGORY_OPTIONS: { value: ServiceCategory; label: string; title: string }[] = [
+  { value: 'regular', label: 'Local', title: 'Regular daytime routes' },
+  { value: 'express', label: 'Express', title: 'Express routes (9xx)' },
+  { value: 'blue-night', label: 'Blue Night', title: 'Overnight Blue Night network (3xx)' },
+  { value: 'community', label: 'Community', title: 'Community routes (4xx)' },
+  { value: 'shuttle', label: 'Shuttles', title: 'Subway and streetcar replacement shuttles' },
+];
 
 // Jitter guard:
 // - The UI displays speeds to 1 decimal place.
@@ -54,8 +55,29 @@ function speedToDisplayBucket(value: number | null | undefined): number | null {
   return Math.round(value * SPEED_COMPARE_FACTOR) / SPEED_COMPARE_FACTOR;
 }
 
+function getAverageSpeedKmh(item: LeaderboardData, metric: AverageMetric): number | null {
+  switch (metric) {
+    case 'avg1h':
+      return item.avg1hSpeedKmh;
+    case 'avg7d':
+      return item.avg7dSpeedKmh;
+    case 'avg30d':
+      return item.avg30dSpeedKmh;
+    default:
+      return item.avg24hSpeedKmh;
+  }
+}
+
+// Direction rows are shown to the same precision, so compare them as displayed too.
+function directionsSignature(directions: LeaderboardDirection[] | undefined): string {
+  if (!directions) return '';
+  return directions
+    .map((d) => `${d.dirTag}:${d.dirTitle ?? ''}:${speedToDisplayBucket(d.speedKmh)}:${d.vehicleCount}`)
+    .join('|');
+}
+
 function getSortValue(item: LeaderboardData, metric: SortMetric): number {
-  const raw = metric === 'avg24h' ? item.avg24hSpeedKmh : item.liveSpeedKmh;
+  const raw = metric === 'live' ? item.liveSpeedKmh : getAverageSpeedKmh(item, metric);
   const bucketed = speedToDisplayBucket(raw);
   if (bucketed == null) return Number.NEGATIVE_INFINITY;
   return bucketed;
@@ -74,7 +96,9 @@ function App() {
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardData[]>([]);
   const [avg24hAvailable, setAvg24hAvailable] = useState<boolean | null>(null);
   const [sortMetric, setSortMetric] = useState<SortMetric>('live');
+  const [speedStat, setSpeedStat] = useState<SpeedStat>('mean');
   const [transitFilter, setTransitFilter] = useState<TransitType>('all');
+  const [serviceFilter, setServiceFilter] = useState<ServiceCategory[]>([]);
   const [hasLoaded, setHasLoaded] = useState(false);
   const [isEmptyApi, setIsEmptyApi] = useState(false);
   const leaderboardDataRef = useRef<LeaderboardData[]>([]);
@@ -82,17 +106,13 @@ function App() {
   const sortMetricRef = useRef<SortMetric>('live');
   const lastRerankAtRef = useRef<number>(0);
 
+  // Rows show the average for the selected window; ranking by live falls back to 24h.
+  const averageOption = AVERAGE_OPTIONS.find((option) => option.value === sortMetric) ?? AVERAGE_OPTIONS[1];
+
   useEffect(() => {
     sortMetricRef.current = sortMetric;
   }, [sortMetric]);
 
-  useEffect(() => {
-    // If the API indicates 24h averages are unavailable, prevent sorting by them.
-    if (avg24hAvailable === false && sortMetric === 'avg24h') {
-      setSortMetric('live');
-    }
-  }, [avg24hAvailable, sortMetric]);
-
   useEffect(() => {
     // Re-rank immediately when the selected metric changes.
     const sorted = sortLeaderboard(leaderboardDataRef.current, sortMetric);
@@ -101,89 +121,89 @@ function App() {
     lastRerankAtRef.current = Date.now();
   }, [sortMetric]);
 
-  const fetchLeaderboard = async () => {
-    try {
-      const response = await fetch('/api/ttc');
-      const data = await response.json();
+  // Receives the full route list from the stream (or the polling fallback) after every update.
+  const handleLiveRoutes = useCallback((apiRoutes: ApiLiveRouteSpeed[]) => {
+    setHasLoaded(true);
 
-      if (response.status !== 200)
-        throw new Error(`Failed to fetch: ${response.status}`);
+    if (apiRoutes.length === 0) {
+      setIsEmptyApi(true);
+      setAvg24hAvailable(null);
 
-      const apiRoutes: ApiLiveRouteSpeed[] = Array.isArray(data) ? (data as ApiLiveRouteSpeed[]) : [];
-      setHasLoaded(true);
-
-      if (apiRoutes.length === 0) {
-        setIsEmptyApi(true);
-        setAvg24hAvailable(null);
-
-        // If the API returns an empty list, clear existing/stale data so the UI
-        // doesn't keep showing routes that are no longer present.
-        leaderboardQueue.current.clear();
-        leaderboardDataRef.current = [];
-        setLeaderboardData([]);
-        return;
-      }
-
-      setIsEmptyApi(false);
-
-      if (typeof apiRoutes[0]?.avg24hAvailable === 'boolean') {
-        // The API explicitly reports whether KV-backed 24h averages are available.
-        // If unavailable, we should indicate that in the UI (while still showing live speeds).
-        setAvg24hAvailable(Boolean(apiRoutes[0].avg24hAvailable));
-      } else {
-        setAvg24hAvailable(null);
-      }
-
-      const newData: LeaderboardData[] = apiRoutes.map((route) => ({
-        routeNumber: route.routeTag,
-        routeTitle: route.routeTitle && route.routeTitle.trim().length > 0 ? route.routeTitle : null,
-        liveSpeedKmh: route.liveSpeedKmh,
-        avg24hSpeedKmh: route.avg24hSpeedKmh,
-        vehicleCount: route.vehicleCount,
-        updatedAt: route.updatedAt,
-        transitType: getTransitType(route.routeTag),
-      }));
-
-      // Filter to find elements that are different from current leaderboard
-      const changedData = newData.filter((newItem) => {
-        const existingItem = leaderboardDataRef.current.find(
-          (item) => item.routeNumber === newItem.routeNumber
-        );
-        const existingLiveBucket = speedToDisplayBucket(existingItem?.liveSpeedKmh);
-        const newLiveBucket = speedToDisplayBucket(newItem.liveSpeedKmh);
-        const existingAvg24hBucket = speedToDisplayBucket(existingItem?.avg24hSpeedKmh);
-        const newAvg24hBucket = speedToDisplayBucket(newItem.avg24hSpeedKmh);
-
-        // Include if:
-        // - doesn't exist in current data OR
-        // - live speed (as displayed) changed OR
-        // - 24h average (as displayed) changed OR
-        // - route title changed (rare, but we should reflect it)
-        //
-        // Note: we intentionally ignore `updatedAt` so we don't enqueue every route on every poll.
-        return (
-          !existingItem ||
-          existingLiveBucket !== newLiveBucket ||
-          existingAvg24hBucket !== newAvg24hBucket ||
-          existingItem.routeTitle !== newItem.routeTitle
-        );
-      });
-
-      // Add changed items to the queue
-      leaderboardQueue.current.upsertAll(changedData);
+      // If the API returns an empty list, clear existing/stale data so the UI
+      // doesn't keep showing routes that are no longer present.
+      leaderboardQueue.current.clear();
+      leaderboardDataRef.current = [];
+      setLeaderboardData([]);
+      return;
+    }
 
-    } catch (error) {
-      console.error('Error fetching leaderboard:', error);
+    setIsEmptyApi(false);
+
+    if (typeof apiRoutes[0]?.avg24hAvailable === 'boolean') {
+      // The API explicitly reports whether KV-backed rolling averages are available.
+      // If unavailable, we should indicate that in the UI (while still showing live speeds).
+      const available = Boolean(apiRoutes[0].avg24hAvailable);
+      setAvg24hAvailable(available);
+      // If rolling averages are unavailable, prevent sorting by them.
+      if (!available) setSortMetric('live');
+    } else {
+      setAvg24hAvailable(null);
     }
-  };
 
-  useEffect(() => {
-    fetchLeaderboard();
+    const newData: LeaderboardData[] = apiRoutes.map((route) => ({
+      routeNumber: route.routeTag,
+      routeTitle: route.routeTitle && route.routeTitle.trim().length > 0 ? route.routeTitle : null,
+      liveSpeedKmh: route.liveSpeedKmh,
+      avg1hSpeedKmh: route.avg1hSpeedKmh ?? null,
+      avg24hSpeedKmh: route.avg24hSpeedKmh,
+      avg7dSpeedKmh: route.avg7dSpeedKmh ?? null,
+      avg30dSpeedKmh: route.avg30dSpeedKmh ?? null,
+      vehicleCount: route.vehicleCount,
+      directions: Array.isArray(route.directions) ? route.directions : [],
+      updatedAt: route.updatedAt,
+      transitType: route.mode ?? 'bus',
+      serviceCategory: route.serviceCategory ?? 'regular',
+    }));
+
+    // Filter to find elements that are different from current leaderboard
+    const changedData = newData.filter((newItem) => {
+      const existingItem = leaderboardDataRef.current.find(
+        (item) => item.routeNumber === newItem.routeNumber
+      );
+      const existingLiveBucket = speedToDisplayBucket(existingItem?.liveSpeedKmh);
+      const newLiveBucket = speedToDisplayBucket(newItem.liveSpeedKmh);
+      const averagesChanged = AVERAGE_OPTIONS.some((option) => (
+        speedToDisplayBucket(existingItem ? getAverageSpeedKmh(existingItem, option.value) : null) !==
+        speedToDisplayBucket(getAverageSpeedKmh(newItem, option.value))
+      ));
+
+      // Include if:
+      // - doesn't exist in current data OR
+      // - live speed (as displayed) changed OR
+      // - any rolling average (as displayed) changed OR
+      // - per-direction breakdown (as displayed) changed OR
+      // - route title or classification changed (rare, but we should reflect it)
+      //
+      // Note: we intentionally ignore `updatedAt` so we don't enqueue every route on every poll.
+      return (
+        !existingItem ||
+        existingLiveBucket !== newLiveBucket ||
+        averagesChanged ||
+        directionsSignature(existingItem.directions) !== directionsSignature(newItem.directions) ||
+        existingItem.routeTitle !== newItem.routeTitle ||
+        existingItem.transitType !== newItem.transitType ||
+        existingItem.serviceCategory !== newItem.serviceCategory
+      );
+    });
+
+    // Add changed items to the queue
+    leaderboardQueue.current.upsertAll(changedData);
+  }, []);
 
-    const fetch_interval = setInterval(() => {
-      fetchLeaderboard();
-    }, 1000);
+  // Switching the statistic reopens the stream, so the new numbers arrive right away.
+  useLiveRoutes(speedStat, handleLiveRoutes);
 
+  useEffect(() => {
     let updateTimeoutId: ReturnType<typeof setTimeout>;
 
     const processNextItem = () => {
@@ -236,11 +256,16 @@ function App() {
     processNextItem();
 
     return () => {
-      clearInterval(fetch_interval);
       clearTimeout(updateTimeoutId);
     }
   }, []);
 
+  const toggleServiceFilter = (category: ServiceCategory) => {
+    setServiceFilter((prev) => (
+      prev.includes(category) ? prev.filter((c) => c !== category) : [...prev, category]
+    ));
+  };
+
   return (
     <>
       <div className="wrapper">
@@ -265,16 +290,34 @@ function App() {
           >
             Live
           </button>
-          <button
-            type="button"
-            className={sortMetric === 'avg24h' ? 'active' : ''}
-            aria-pressed={sortMetric === 'avg24h'}
-            disabled={avg24hAvailable === false}
-            onClick={() => setSortMetric('avg24h')}
-            title={avg24hAvailable === false ? '24h averages unavailable (configure Vercel KV)' : undefined}
-          >
-            24h avg
-          </button>
+          {AVERAGE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={sortMetric === option.value ? 'active' : ''}
+              aria-pressed={sortMetric === option.value}
+              disabled={avg24hAvailable === false}
+              onClick={() => setSortMetric(option.value)}
+              title={avg24hAvailable === false ? 'Averages unavailable (configure storage)' : undefined}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="sort-toggle" role="group" aria-label="Live speed statistic">
+          <span className="sort-toggle-label">Speed:</span>
+          {SPEED_STAT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={speedStat === option.value ? 'active' : ''}
+              aria-pressed={speedStat === option.value}
+              onClick={() => setSpeedStat(option.value)}
+              title={option.title}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
         <div className="sort-toggle" role="group" aria-label="Filter by transit type">
           <span className="sort-toggle-label">Filter:</span>
@@ -310,6 +353,37 @@ function App() {
           >
             Subway
           </button>
+          <button
+            type="button"
+            className={transitFilter === 'lrt' ? 'active' : ''}
+            aria-pressed={transitFilter === 'lrt'}
+            onClick={() => setTransitFilter('lrt')}
+          >
+            LRT
+          </button>
+        </div>
+        <div className="sort-toggle" role="group" aria-label="Filter by service category">
+          <span className="sort-toggle-label">Service:</span>
+          <button
+            type="button"
+            className={serviceFilter.length === 0 ? 'active' : ''}
+            aria-pressed={serviceFilter.length === 0}
+            onClick={() => setServiceFilter([])}
+          >
+            Any
+          </button>
+          {SERVICE_CATEGORY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={serviceFilter.includes(option.value) ? 'active' : ''}
+              aria-pressed={serviceFilter.includes(option.value)}
+              onClick={() => toggleServiceFilter(option.value)}
+              title={option.title}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
         <div className="leaderboard">
           <AnimatePresence>
@@ -318,13 +392,20 @@ function App() {
                 return <div className="loading">Loading...</div>;
               }
 
-              const filteredData = leaderboardData.filter((position) => 
-                transitFilter === 'all' || position.transitType === transitFilter
-              );
+              const filteredData = leaderboardData.filter((position) => (
+                (transitFilter === 'all' || position.transitType === transitFilter) &&
+                (serviceFilter.length === 0 || serviceFilter.includes(position.serviceCategory))
+              ));
 
               if (filteredData.length === 0) {
-                const filterLabel = transitFilter === 'all' ? '' : `${transitFilter} `;
-                return <div className="loading">No {filterLabel}routes with speed data right now.</div>;
+                const serviceLabels = SERVICE_CATEGORY_OPTIONS
+                  .filter((option) => serviceFilter.includes(option.value))
+                  .map((option) => option.label);
+                const filterLabel = [
+                  serviceLabels.join(' / '),
+                  transitFilter === 'all' ? '' : transitFilter,
+                ].filter(Boolean).join(' ');
+                return <div className="loading">No {filterLabel ? `${filterLabel} ` : ''}routes with speed data right now.</div>;
               }
 
               return filteredData.map((position) => (
@@ -339,7 +420,10 @@ function App() {
                     routeNumber={position.routeNumber}
                     routeTitle={position.routeTitle?.trim().length ? position.routeTitle : position.routeNumber}
                     liveSpeedKmh={position.liveSpeedKmh}
-                    avg24hSpeedKmh={position.avg24hSpeedKmh}
+                    avgWindow={averageOption.window}
+                    avgSpeedKmh={getAverageSpeedKmh(position, averageOption.value)}
+                    directions={position.directions}
+                    profileAvailable={avg24hAvailable === true}
                     transitType={position.transitType}
                   />
                 </motion.div>
@@ -350,11 +434,17 @@ function App() {
         <div className="info">
           Live = current average speed for vehicles reporting speed on each route.
           <br></br>
-          24h avg = rolling average over the last 24 hours (when available).
+          Click a route to see speeds by direction and a typical-speed heatmap by hour of week (when available).
+          <br></br>
+          Service = TTC service categories (Local, Express, Blue Night, Community, replacement Shuttles); pick any combination.
+          <br></br>
+          Speed = how vehicles are combined into the live number (mean, median, trimmed mean, or moving vehicles only).
+          <br></br>
+          1h / 24h / 7d / 30d avg = rolling averages over that window (when available). Rows show the selected window (24h when ranking by live).
           {avg24hAvailable === false ? (
             <>
               <br></br>
-              24h averages unavailable (configure Vercel KV).
+              Averages unavailable (configure a storage backend).
             </>
           ) : null}
         </div>
@@ -1,11 +1,27 @@
+// Mirror the backend's route classification (`api/routeClasses.ts`).
+export type TransitMode = 'subway' | 'lrt' | 'streetcar' | 'bus';
+export type ServiceCategory = 'regular' | 'blue-night' | 'express' | 'community' | 'shuttle';
+
+export interface LeaderboardDirection {
+    dirTag: string;
+    dirTitle: string | null;
+    speedKmh: number;
+    vehicleCount: number;
+}
+
 export interface LeaderboardData {
     routeNumber: string;
     routeTitle: string | null;
     liveSpeedKmh: number;
+    avg1hSpeedKmh: number | null;
     avg24hSpeedKmh: number | null;
+    avg7dSpeedKmh: number | null;
+    avg30dSpeedKmh: number | null;
     vehicleCount: number;
+    directions: LeaderboardDirection[];
     updatedAt: string; // ISO string
-    transitType: 'bus' | 'streetcar' | 'subway';
+    transitType: TransitMode;
+    serviceCategory: ServiceCategory;
 }
 
 export class LeaderboardQueue {
@@ -0,0 +1,75 @@
+import './HourOfWeekHeatmap.css'
+import type { ProfileBucket } from '../useRouteProfile'
+
+interface HourOfWeekHeatmap {
+    buckets: ProfileBucket[];
+    routeNumber: string;
+    borderWidth: number;
+}
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+// Hour axis under the 24 cells: labels at 0, 6, 12 and 18.
+const HOUR_AXIS = '0     6     12    18    ';
+// Legend characters besides the range: the `|` and indent before the axis, and the closing ` |`.
+const LEGEND_FRAME_CHARS = 6 + HOUR_AXIS.length + 2;
+const CELL = '█';
+const EMPTY_CELL = '·';
+
+// Slowest hour red, fastest green (scaled per route so the rush-hour dip stands out).
+function cellColor(speedKmh: number, min: number, max: number): string {
+    const ratio = max > min ? (speedKmh - min) / (max - min) : 1;
+    return `hsl(${Math.round(ratio * 120)}, 70%, 45%)`;
+}
+
+function HourOfWeekHeatmap({ buckets, routeNumber, borderWidth }: HourOfWeekHeatmap) {
+    const present = buckets.map((b) => b.speedKmh).filter((v): v is number => v != null && Number.isFinite(v));
+    if (present.length === 0) return null;
+    const min = Math.min(...present);
+    const max = Math.max(...present);
+    // Drop the unit when the full label would overflow the row (the 38ch mobile column).
+    const range = `${min.toFixed(0)}–${max.toFixed(0)}`;
+    const rangeLabel = LEGEND_FRAME_CHARS + `${range} km/h`.length <= borderWidth ? `${range} km/h` : range;
+
+    return (
+        <>
+            {DAY_LABELS.map((label, day) => (
+                <div className="content heatmap-row" style={{ width: `${borderWidth}ch` }} key={label}>
+                    <div className="left-side">
+                        |&nbsp;{label}&nbsp;
+                        <span className="heatmap-cells" role="img" aria-label={`Route ${routeNumber} typical speeds on ${label}`}>
+                            {buckets.slice(day * 24, day * 24 + 24).map((b) => (
+                                b.speedKmh == null ? (
+                                    <span className="heatmap-cell empty" key={b.hour}>{EMPTY_CELL}</span>
+                                ) : (
+                                    <span
+                                        className="heatmap-cell"
+                                        key={b.hour}
+                                        style={{ color: cellColor(b.speedKmh, min, max) }}
+                                        title={`${label} ${String(b.hour).padStart(2, '0')}:00 — ${b.speedKmh.toFixed(1)} km/h (${b.sampleCount} samples)`}
+                                    >
+                                        {CELL}
+                                    </span>
+                                )
+                            ))}
+                        </span>
+                    </div>
+                    <div className="right-side">
+                        &nbsp;|
+                    </div>
+                </div>
+            ))}
+            <div className="content heatmap-row heatmap-legend" style={{ width: `${borderWidth}ch` }}>
+                <div className="left-side">
+                    |&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;
+                    <span className="heatmap-cells">{HOUR_AXIS}</span>
+                    {rangeLabel}
+                </div>
+                <div className="right-side">
+                    &nbsp;|
+                </div>
+            </div>
+        </>
+    );
+}
+
+export default HourOfWeekHeatmap;
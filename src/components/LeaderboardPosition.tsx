@@ -1,12 +1,22 @@
 import { useState, useEffect, useRef } from 'react'
 import './LeaderboardPosition.css'
+import type { LeaderboardDirection, TransitMode } from '../LeaderboardQueue'
+import { useRouteHistory } from '../useRouteHistory'
+import { useRouteProfile } from '../useRouteProfile'
+import HourOfWeekHeatmap from './HourOfWeekHeatmap'
+import Sparkline from './Sparkline'
 
 interface LeaderboardPosition {
     routeNumber: string;
     routeTitle: string;
     liveSpeedKmh: number;
-    avg24hSpeedKmh: number | null;
-    transitType: 'bus' | 'streetcar' | 'subway';
+    /** Label of the rolling-average window shown next to the live speed (e.g. `24h`). */
+    avgWindow: string;
+    avgSpeedKmh: number | null;
+    directions: LeaderboardDirection[];
+    /** Whether KV-backed history exists, so the expanded row can show an hour-of-week heatmap. */
+    profileAvailable: boolean;
+    transitType: TransitMode;
 }
 
 function formatSpeedKmh(value: number | null | undefined): string {
@@ -15,8 +25,10 @@ function formatSpeedKmh(value: number | null | undefined): string {
     return value.toFixed(1);
 }
 
-function LeaderboardPosition({ routeNumber, routeTitle, liveSpeedKmh, avg24hSpeedKmh, transitType }: LeaderboardPosition) {
+function LeaderboardPosition({ routeNumber, routeTitle, liveSpeedKmh, avgWindow, avgSpeedKmh, directions, profileAvailable, transitType }: LeaderboardPosition) {
     const containerRef = useRef<HTMLDivElement>(null);
+    const [isExpanded, setIsExpanded] = useState(false);
+    const isExpandable = directions.length > 0 || profileAvailable;
 
     const [isMobile, setIsMobile] = useState(window.innerWidth < 500);
     useEffect(() => {
@@ -36,21 +48,59 @@ function LeaderboardPosition({ routeNumber, routeTitle, liveSpeedKmh, avg24hSpee
 
     // 50, 36
 
+    // Sparkline row: "| 24h " prefix (6 chars) + blocks + " |" suffix (2 chars).
+    const sparklinePoints = borderWidth - 8;
+
+    // Only load history for rows that are (nearly) on screen.
+    // (Without IntersectionObserver support, treat every row as visible.)
+    const [isVisible, setIsVisible] = useState(() => typeof IntersectionObserver === 'undefined');
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el || typeof IntersectionObserver === 'undefined') return;
+
+        const observer = new IntersectionObserver(
+            (entries) => setIsVisible(entries.some((entry) => entry.isIntersecting)),
+            { rootMargin: '200px 0px' }
+        );
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+    const history = useRouteHistory(routeNumber, sparklinePoints, isVisible);
+    const profile = useRouteProfile(routeNumber, isExpanded && profileAvailable);
+
     const displayTitle = routeTitle.trim().length ? routeTitle : routeNumber;
     const liveText = formatSpeedKmh(liveSpeedKmh);
-    const avg24hText = formatSpeedKmh(avg24hSpeedKmh);
+    const avgText = formatSpeedKmh(avgSpeedKmh);
 
     // Color coding by transit type
     const colorClass = transitType === 'streetcar' ? 'red' : 
                        transitType === 'subway' ? 'blue' : 
+                       transitType === 'lrt' ? 'orange' : 
                        'green'; // bus
 
+    const toggleExpanded = () => {
+        if (isExpandable) setIsExpanded((prev) => !prev);
+    };
+
     return (
         <div className="leaderboard-position" ref={containerRef}>
             <div className="border">
                 {border}
             </div>
-            <div className="content" style={{ width: `${borderWidth}ch` }}>
+            <div
+                className={`content${isExpandable ? ' expandable' : ''}`}
+                style={{ width: `${borderWidth}ch` }}
+                role={isExpandable ? 'button' : undefined}
+                tabIndex={isExpandable ? 0 : undefined}
+                aria-expanded={isExpandable ? isExpanded : undefined}
+                onClick={toggleExpanded}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                        e.preventDefault();
+                        toggleExpanded();
+                    }
+                }}
+            >
                 <div className="left-side">
                     |&nbsp;
                     <div className={`position-route-number ${colorClass}`}>{routeNumber}</div>
@@ -59,11 +109,42 @@ function LeaderboardPosition({ routeNumber, routeTitle, liveSpeedKmh, avg24hSpee
                 </div>
                 <div className="right-side">
                     <div className="position-speed">
-                        live {liveText} / 24h {avg24hText} km/h
+                        live {liveText} / {avgWindow} {avgText} km/h
                     </div>
+                    {isExpandable ? (
+                        <div className="position-expand-indicator">&nbsp;{isExpanded ? '[-]' : '[+]'}</div>
+                    ) : null}
                     &nbsp;|
                 </div>
             </div>
+            {history ? (
+                <div className="content sparkline-row" style={{ width: `${borderWidth}ch` }}>
+                    <div className="left-side">
+                        |&nbsp;24h&nbsp;
+                        <Sparkline values={history} label={`Route ${routeNumber} last 24h`} />
+                    </div>
+                    <div className="right-side">
+                        &nbsp;|
+                    </div>
+                </div>
+            ) : null}
+            {isExpanded && isExpandable ? directions.map((direction) => (
+                <div className="content direction" style={{ width: `${borderWidth}ch` }} key={direction.dirTag}>
+                    <div className="left-side">
+                        |&nbsp;&nbsp;&nbsp;
+                        <div className="position-direction-title">{direction.dirTitle ?? direction.dirTag}</div>
+                    </div>
+                    <div className="right-side">
+                        <div className="position-speed">
+                            {formatSpeedKmh(direction.speedKmh)} km/h ({direction.vehicleCount} veh)
+                        </div>
+                        &nbsp;|
+                    </div>
+                </div>
+            )) : null}
+            {isExpanded && profile ? (
+                <HourOfWeekHeatmap buckets={profile} routeNumber={routeNumber} borderWidth={borderWidth} />
+            ) : null}
             <div className="border">
                 {border}
             </div>
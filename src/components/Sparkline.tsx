@@ -0,0 +1,40 @@
+import './Sparkline.css'
+
+interface Sparkline {
+    values: (number | null)[];
+    label: string;
+}
+
+// Eight block heights, lowest to highest. Gaps (no samples) render as a blank column.
+const BLOCKS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+const GAP = ' ';
+
+function toBlocks(values: (number | null)[]): string {
+    const present = values.filter((v): v is number => v != null && Number.isFinite(v));
+    // Scale from 0 so bar height is proportional to speed (a flat line at 5 km/h stays low).
+    const max = present.length > 0 ? Math.max(...present) : 0;
+
+    return values
+        .map((v) => {
+            if (v == null || !Number.isFinite(v)) return GAP;
+            if (max <= 0) return BLOCKS[0];
+            const index = Math.round((v / max) * (BLOCKS.length - 1));
+            return BLOCKS[Math.min(BLOCKS.length - 1, Math.max(0, index))];
+        })
+        .join('');
+}
+
+function Sparkline({ values, label }: Sparkline) {
+    const present = values.filter((v): v is number => v != null && Number.isFinite(v));
+    const summary = present.length > 0
+        ? `${label}: ${Math.min(...present).toFixed(1)}–${Math.max(...present).toFixed(1)} km/h`
+        : `${label}: no data`;
+
+    return (
+        <span className="sparkline" title={summary} aria-label={summary} role="img">
+            {toBlocks(values)}
+        </span>
+    );
+}
+
+export default Sparkline;
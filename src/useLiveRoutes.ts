@@ -0,0 +1,159 @@
+import { useEffect, useRef } from 'react'
+import type { LeaderboardDirection, ServiceCategory, TransitMode } from './LeaderboardQueue'
+
+// Mirrors the `aggregation` query parameter accepted by `/api/ttc` and `/api/stream`.
+export type SpeedStat = 'mean' | 'median' | 'trimmed' | 'moving';
+
+export type ApiLiveRouteSpeed = {
+  routeTag: string;
+  routeTitle: string | null;
+  mode: TransitMode;
+  serviceCategory: ServiceCategory;
+  liveSpeedKmh: number;
+  liveSpeedStat: SpeedStat;
+  avg24hAvailable: boolean;
+  avg1hSpeedKmh?: number | null;
+  avg24hSpeedKmh: number | null;
+  avg7dSpeedKmh?: number | null;
+  avg30dSpeedKmh?: number | null;
+  vehicleCount: number;
+  directions?: LeaderboardDirection[];
+  updatedAt: string;
+};
+
+type StreamDelta = {
+  changed?: ApiLiveRouteSpeed[];
+  removed?: string[];
+};
+
+const POLL_INTERVAL_MS = 1000;
+// Consecutive failed connection attempts (no event in between) before falling back to polling.
+const MAX_STREAM_FAILURES = 3;
+const STREAM_RETRY_DELAY_MS = 2000;
+
+function parseEventData<T>(event: Event): T | null {
+  try {
+    return JSON.parse((event as MessageEvent<string>).data) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Live leaderboard routes for `stat`.
+ *
+ * Subscribes to `/api/stream` (SSE snapshot + deltas) and keeps the full route list locally.
+ * Falls back to polling `/api/ttc` every second when EventSource is unavailable or the stream
+ * fails to connect `MAX_STREAM_FAILURES` times in a row. `onRoutes` gets the complete current
+ * list after every update.
+ */
+export function useLiveRoutes(stat: SpeedStat, onRoutes: (routes: ApiLiveRouteSpeed[]) => void): void {
+  const onRoutesRef = useRef(onRoutes);
+
+  useEffect(() => {
+    onRoutesRef.current = onRoutes;
+  }, [onRoutes]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let pollIntervalId: ReturnType<typeof setInterval> | null = null;
+    let source: EventSource | null = null;
+    let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    let failures = 0;
+    const routesByTag = new Map<string, ApiLiveRouteSpeed>();
+    let etag: string | null = null;
+
+    const poll = async () => {
+      try {
+        // Revalidate instead of refetching: a 304 means nothing changed since the last poll.
+        const response = await fetch(`/api/ttc?aggregation=${stat}`, {
+          headers: etag ? { 'If-None-Match': etag } : undefined,
+        });
+        if (response.status === 304) return;
+        const data = await response.json();
+
+        if (response.status !== 200)
+          throw new Error(`Failed to fetch: ${response.status}`);
+
+        // Ignore responses for a statistic the user has since switched away from.
+        if (cancelled) return;
+        etag = response.headers.get('ETag');
+        onRoutesRef.current(Array.isArray(data) ? (data as ApiLiveRouteSpeed[]) : []);
+      } catch (error) {
+        console.error('Error fetching leaderboard:', error);
+      }
+    };
+
+    const startPolling = () => {
+      if (cancelled || pollIntervalId !== null) return;
+      poll();
+      pollIntervalId = setInterval(poll, POLL_INTERVAL_MS);
+    };
+
+    const connect = () => {
+      if (cancelled) return;
+      const stream = new EventSource(`/api/stream?aggregation=${stat}`);
+      source = stream;
+
+      // Any sign of life (the response opening, or any event, even a `feed-error`) means the
+      // stream works; only consecutive failures to connect count towards falling back.
+      const markWorking = () => {
+        failures = 0;
+      };
+      stream.onopen = markWorking;
+
+      stream.addEventListener('snapshot', (event) => {
+        markWorking();
+        const routes = parseEventData<ApiLiveRouteSpeed[]>(event);
+        if (!Array.isArray(routes)) return;
+        routesByTag.clear();
+        for (const route of routes) routesByTag.set(route.routeTag, route);
+        onRoutesRef.current([...routesByTag.values()]);
+      });
+
+      stream.addEventListener('delta', (event) => {
+        markWorking();
+        const delta = parseEventData<StreamDelta>(event);
+        if (!delta) return;
+        for (const routeTag of delta.removed ?? []) routesByTag.delete(routeTag);
+        for (const route of delta.changed ?? []) routesByTag.set(route.routeTag, route);
+        onRoutesRef.current([...routesByTag.values()]);
+      });
+
+      stream.addEventListener('feed-error', (event) => {
+        markWorking();
+        console.error('Error fetching leaderboard:', parseEventData(event));
+      });
+
+      stream.onerror = () => {
+        // Each response ends after about a minute and EventSource reconnects on its own
+        // (resuming from the last event id); that lands here too, once, before `onopen`.
+        failures += 1;
+        if (failures >= MAX_STREAM_FAILURES) {
+          stream.close();
+          source = null;
+          startPolling();
+          return;
+        }
+        // EventSource gives up for good on an HTTP error (e.g. a 503): retry it ourselves.
+        if (stream.readyState === EventSource.CLOSED) {
+          source = null;
+          reconnectTimeoutId = setTimeout(connect, STREAM_RETRY_DELAY_MS * failures);
+        }
+      };
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      connect();
+    }
+
+    return () => {
+      cancelled = true;
+      source?.close();
+      if (reconnectTimeoutId !== null) clearTimeout(reconnectTimeoutId);
+      if (pollIntervalId !== null) clearInterval(pollIntervalId);
+    };
+  }, [stat]);
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+
+type ApiHistoryPoint = {
+  t: number;
+  speedKmh: number | null;
+  sampleCount: number;
+};
+
+type ApiHistoryResponse = {
+  routes?: { routeTag: string; points?: ApiHistoryPoint[] }[];
+};
+
+type CachedHistory = {
+  fetchedAtMs: number;
+  values: (number | null)[];
+};
+
+const HISTORY_WINDOW_MINUTES = 24 * 60;
+
+// History only gains one sample per minute, so there's no point refetching on every poll.
+// The cache is module-level so rows that remount (filter changes, re-ranking) reuse it.
+const HISTORY_REFRESH_MS = 5 * 60 * 1000;
+const historyCache = new Map<string, CachedHistory>();
+
+function cacheKey(routeTag: string, points: number): string {
+  return `${routeTag}:${points}`;
+}
+
+async function fetchHistory(routeTag: string, points: number): Promise<(number | null)[] | null> {
+  const resolutionMinutes = Math.max(1, Math.round(HISTORY_WINDOW_MINUTES / points));
+  const params = new URLSearchParams({
+    route: routeTag,
+    window: '24h',
+    resolution: `${resolutionMinutes}m`,
+  });
+
+  const response = await fetch(`/api/history?${params.toString()}`);
+  // 503 means KV isn't configured: there is simply no history to show.
+  if (response.status !== 200) return null;
+
+  const data = (await response.json()) as ApiHistoryResponse;
+  const series = data.routes?.find((r) => r.routeTag === routeTag);
+  if (!series?.points) return null;
+
+  // The first bucket is aligned to the resolution and may be partial; keep the latest `points`.
+  return series.points.slice(-points).map((p) => p.speedKmh);
+}
+
+/**
+ * Last-24h speed series for one route, downsampled to `points` buckets.
+ *
+ * Only fetches while `enabled` (e.g. the row is on screen); returns `null` until data exists
+ * or when history is unavailable.
+ */
+export function useRouteHistory(routeTag: string, points: number, enabled: boolean): (number | null)[] | null {
+  const [values, setValues] = useState<(number | null)[] | null>(
+    () => historyCache.get(cacheKey(routeTag, points))?.values ?? null
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const key = cacheKey(routeTag, points);
+
+    const refresh = async () => {
+      const cached = historyCache.get(key);
+      if (cached && Date.now() - cached.fetchedAtMs < HISTORY_REFRESH_MS) {
+        if (!cancelled) setValues(cached.values);
+        return;
+      }
+
+      try {
+        const next = await fetchHistory(routeTag, points);
+        if (next) historyCache.set(key, { fetchedAtMs: Date.now(), values: next });
+        if (!cancelled) setValues(next);
+      } catch (error) {
+        console.error('Error fetching route history:', error);
+      }
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, HISTORY_REFRESH_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [routeTag, points, enabled]);
+
+  return values;
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react'
+
+export type ProfileBucket = {
+  day: number; // 0 = Monday … 6 = Sunday
+  hour: number; // local hour, 0–23
+  speedKmh: number | null;
+  sampleCount: number;
+};
+
+type ApiProfilesResponse = {
+  routes?: { routeTag: string; buckets?: ProfileBucket[]; sampleCount?: number }[];
+};
+
+type CachedProfile = {
+  fetchedAtMs: number;
+  buckets: ProfileBucket[] | null;
+};
+
+// Profiles only gain one hour of data per hour; refetching more often is wasted work.
+const PROFILE_REFRESH_MS = 30 * 60 * 1000;
+const profileCache = new Map<string, CachedProfile>();
+
+async function fetchProfile(routeTag: string): Promise<ProfileBucket[] | null> {
+  const params = new URLSearchParams({ route: routeTag });
+  const response = await fetch(`/api/profiles?${params.toString()}`);
+  // 503 means KV isn't configured: there is simply no profile to show.
+  if (response.status !== 200) return null;
+
+  const data = (await response.json()) as ApiProfilesResponse;
+  const profile = data.routes?.find((r) => r.routeTag === routeTag);
+  if (!profile?.buckets || !profile.sampleCount) return null;
+  return profile.buckets;
+}
+
+/**
+ * Hour-of-week speed profile (168 buckets) for one route.
+ *
+ * Only fetches while `enabled` (e.g. the row is expanded); returns `null` until data exists
+ * or when profiles are unavailable.
+ */
+export function useRouteProfile(routeTag: string, enabled: boolean): ProfileBucket[] | null {
+  const [buckets, setBuckets] = useState<ProfileBucket[] | null>(
+    () => profileCache.get(routeTag)?.buckets ?? null
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    const refresh = async () => {
+      const cached = profileCache.get(routeTag);
+      if (cached && Date.now() - cached.fetchedAtMs < PROFILE_REFRESH_MS) {
+        if (!cancelled) setBuckets(cached.buckets);
+        return;
+      }
+
+      try {
+        const next = await fetchProfile(routeTag);
+        profileCache.set(routeTag, { fetchedAtMs: Date.now(), buckets: next });
+        if (!cancelled) setBuckets(next);
+      } catch (error) {
+        console.error('Error fetching route profile:', error);
+      }
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, PROFILE_REFRESH_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [routeTag, enabled]);
+
+  return buckets;
+}
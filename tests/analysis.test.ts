@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { accumulateRecord, buildReports, createAnalysisAccumulator, localWeekStart, reportsToCsv } from '../scripts/analysis';
+
+const MINUTE_MS = 60 * 1000;
+// Monday 2026-01-05 12:00 in Toronto (17:00 UTC).
+const MONDAY_NOON = Date.UTC(2026, 0, 5, 17, 0, 0);
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+describe('archive analysis', () => {
+    it('starts weeks on the local Monday', () => {
+        expect(localWeekStart(MONDAY_NOON)).toBe('2026-01-05');
+        // 01:00 UTC on Monday is still Sunday evening in Toronto.
+        expect(localWeekStart(Date.UTC(2026, 0, 5, 1, 0, 0))).toBe('2025-12-29');
+    });
+
+    it('summarizes minute samples per route with percentiles and weekly change', () => {
+        const acc = createAnalysisAccumulator();
+        for (let i = 0; i < 40; i++) {
+            accumulateRecord(acc, { timestampMs: MONDAY_NOON + i * MINUTE_MS, routeTag: '505', routeTitle: '505-Dundas', speedKmh: 10 });
+            accumulateRecord(acc, { timestampMs: MONDAY_NOON + WEEK_MS + i * MINUTE_MS, routeTag: '505', speedKmh: 12 });
+        }
+        accumulateRecord(acc, { timestampMs: MONDAY_NOON, routeTag: '501', speedKmh: 15 });
+
+        const [r501, r505] = buildReports(acc);
+        expect(r501.routeTag).toBe('501');
+        expect(r501.slowestPeriods).toEqual([]); // too few samples to rank
+
+        expect(r505.routeTitle).toBe('505-Dundas');
+        expect(r505.sampleCount).toBe(80);
+        expect(r505.summary).toMatchObject({ meanKmh: 11, minKmh: 10, medianKmh: 11, p90Kmh: 12, maxKmh: 12 });
+        expect(r505.dayOfWeek[0]).toEqual({ day: 'Mon', speedKmh: 11, sampleCount: 80 });
+        expect(r505.hourOfDay[12]).toEqual({ hour: 12, speedKmh: 11, sampleCount: 80 });
+        expect(r505.slowestPeriods).toEqual([{ day: 'Mon', hour: 12, speedKmh: 11, sampleCount: 80 }]);
+        expect(r505.weekly).toEqual([
+            { weekStart: '2026-01-05', speedKmh: 10, sampleCount: 40, changeKmh: null, changePct: null },
+            { weekStart: '2026-01-12', speedKmh: 12, sampleCount: 40, changeKmh: 2, changePct: 20 },
+        ]);
+
+        const csv = reportsToCsv([r505]).split('\n');
+        expect(csv[0]).toBe('routeTag,routeTitle,section,period,speedKmh,sampleCount,changeKmh,changePct');
+        expect(csv).toContain('505,505-Dundas,week,2026-01-12,12,40,2,20');
+    });
+});
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    appendArchiveRecords,
+    compressClosedArchiveFiles,
+    listArchiveFiles,
+    migrateLegacyArchiveFile,
+    readArchive,
+    type ArchiveReadOptions,
+} from '../api/archive';
+
+type Rec = { timestampMs: number; routeTag: string };
+
+const DAY1 = Date.UTC(2026, 0, 5, 23, 59, 0);
+const DAY2 = Date.UTC(2026, 0, 6, 0, 0, 0);
+
+let dir: string;
+let archive: ArchiveReadOptions;
+
+async function readAll(options: ArchiveReadOptions = archive): Promise<Rec[]> {
+    const records: Rec[] = [];
+    for await (const record of readArchive<Rec>(options)) records.push(record);
+    return records;
+}
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-test-'));
+    archive = { dir, prefix: 'speed' };
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('NDJSON archive', () => {
+    it('rotates by UTC day and reads records back in order', async () => {
+        appendArchiveRecords(archive, [
+            { timestampMs: DAY1, routeTag: '501' },
+            { timestampMs: DAY2, routeTag: '501' },
+        ]);
+        appendArchiveRecords(archive, [{ timestampMs: DAY2 + 60_000, routeTag: '504' }]);
+
+        expect(listArchiveFiles(archive).map((f) => f.day)).toEqual(['2026-01-05', '2026-01-06']);
+        expect((await readAll()).map((r) => r.timestampMs)).toEqual([DAY1, DAY2, DAY2 + 60_000]);
+        expect(await readAll({ ...archive, fromMs: DAY2, toMs: DAY2 + 60_000 })).toEqual([{ timestampMs: DAY2, routeTag: '501' }]);
+    });
+
+    it('recovers from a partial line left by a crashed write', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        appendArchiveRecords(archive, [{ timestampMs: DAY1, routeTag: '501' }]);
+        fs.appendFileSync(path.join(dir, 'speed-2026-01-05.ndjson'), '{"timestampMs":');
+        appendArchiveRecords(archive, [{ timestampMs: DAY1 + 1000, routeTag: '504' }]);
+
+        expect((await readAll()).map((r) => r.routeTag)).toEqual(['501', '504']);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipped 1 malformed lines'));
+    });
+
+    it('gzips closed days and keeps them readable', async () => {
+        appendArchiveRecords(archive, [
+            { timestampMs: DAY1, routeTag: '501' },
+            { timestampMs: DAY2, routeTag: '504' },
+        ]);
+
+        expect(await compressClosedArchiveFiles(archive, DAY2)).toEqual(['2026-01-05']);
+        expect(fs.readdirSync(dir).sort()).toEqual(['speed-2026-01-05.ndjson.gz', 'speed-2026-01-06.ndjson']);
+        expect((await readAll()).map((r) => r.routeTag)).toEqual(['501', '504']);
+    });
+
+    it('migrates a legacy CacheData JSON file into daily files once', async () => {
+        const legacyFile = path.join(dir, 'speed-data.json');
+        const legacyRecords = [
+            { timestampMs: DAY1 - 60_000, routeTag: '505' },
+            { timestampMs: DAY2, routeTag: '504' },
+        ];
+        fs.writeFileSync(legacyFile, JSON.stringify({ startTime: '', startTimeMs: DAY1 - 60_000, records: legacyRecords }));
+        // As if an earlier migration appended the first record, then crashed before the rename.
+        appendArchiveRecords(archive, [legacyRecords[0], { timestampMs: DAY1, routeTag: '501' }]);
+
+        expect(await migrateLegacyArchiveFile(archive, legacyFile)).toBe(1);
+        expect((await readAll()).map((r) => r.routeTag)).toEqual(['505', '501', '504']);
+        expect(fs.existsSync(legacyFile)).toBe(false);
+        expect(fs.existsSync(`${legacyFile}.migrated`)).toBe(true);
+        expect(await migrateLegacyArchiveFile(archive, legacyFile)).toBeNull();
+    });
+});
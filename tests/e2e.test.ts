@@ -0,0 +1,181 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startMockFeed, type MockFeed } from '../scripts/mockFeed';
+
+// The API end to end: real handlers and pipeline, the mock `publicXMLFeed` in place of UmoIQ,
+// and the in-memory storage backend in place of Vercel KV.
+
+type MockResponse = {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: unknown;
+};
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+async function call(handler: Handler, query: Record<string, string>, headers: Record<string, string> = {}) {
+    const out: MockResponse = { statusCode: 200, headers: {}, body: undefined };
+    const res = {
+        setHeader(name: string, value: string) {
+            out.headers[name.toLowerCase()] = value;
+            return res;
+        },
+        status(code: number) {
+            out.statusCode = code;
+            return res;
+        },
+        json(body: unknown) {
+            out.body = body;
+            return res;
+        },
+        end() {
+            return res;
+        },
+    };
+    await handler({ query, headers } as unknown as VercelRequest, res as unknown as VercelResponse);
+    return out;
+}
+
+// Every test gets fresh modules, so no snapshot, route metadata or stored samples carry over.
+async function loadApi() {
+    vi.resetModules();
+    const [ttc, route] = await Promise.all([import('../api/ttc'), import('../api/route/[tag]')]);
+    return { ttc: ttc.default as Handler, route: route.default as Handler };
+}
+
+type RouteRow = {
+    routeTag: string;
+    routeTitle: string | null;
+    mode: string;
+    serviceCategory: string;
+    liveSpeedKmh: number;
+    vehicleCount: number;
+    excludedVehicleCounts: Record<string, number>;
+    directions: Array<{ dirTag: string; dirTitle: string | null; speedKmh: number }>;
+    avg24hAvailable: boolean;
+    avg1hSpeedKmh: number | null;
+};
+
+let feed: MockFeed;
+
+beforeAll(async () => {
+    feed = await startMockFeed();
+    vi.stubEnv('TTC_PUBLIC_XML_FEED_URL', feed.url);
+    vi.stubEnv('TTC_STORAGE_BACKEND', 'memory');
+    vi.stubEnv('TTC_VEHICLE_SOURCE', 'nextbus');
+});
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    await feed.close();
+});
+
+beforeEach(() => {
+    feed.useFixture('vehicleLocations', 'vehicleLocations');
+    feed.failWith('vehicleLocations', null);
+    feed.failWith('routeList', null);
+    feed.requests.length = 0;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('GET /api/ttc', () => {
+    it('serves live speeds with titles, classes, exclusions and stored samples', async () => {
+        const api = await loadApi();
+        const res = await call(api.ttc, {});
+
+        expect(res.statusCode).toBe(200);
+        const routes = res.body as RouteRow[];
+        expect(routes.map((r) => r.routeTag).sort()).toEqual(['304', '501', '939']);
+
+        const byTag = new Map(routes.map((r) => [r.routeTag, r]));
+        expect(byTag.get('501')).toMatchObject({
+            routeTitle: '501-Queen',
+            mode: 'streetcar',
+            serviceCategory: 'regular',
+            liveSpeedKmh: 15,
+            vehicleCount: 2,
+            excludedVehicleCounts: { stale: 1, nonPredictable: 1, layover: 1 },
+            avg24hAvailable: true,
+        });
+        expect(byTag.get('501')?.directions).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({ dirTag: '501_0_501', dirTitle: 'East - 501 Queen towards Neville Park', speedKmh: 20 }),
+            ])
+        );
+        // Negative and empty speeds are not samples.
+        expect(byTag.get('939')).toMatchObject({ serviceCategory: 'express', liveSpeedKmh: 35, vehicleCount: 1 });
+        expect(byTag.get('304')).toMatchObject({ serviceCategory: 'blue-night', liveSpeedKmh: 18 });
+
+        // The minute sample went to the storage backend.
+        expect(byTag.get('501')?.avg1hSpeedKmh).toBe(15);
+
+        expect(feed.requests.some((q) => q.startsWith('command=routeList'))).toBe(true);
+        expect(feed.requests).toContain('command=routeConfig&a=ttc&r=501');
+    });
+
+    it('answers conditional requests with 304 and rejects an unknown aggregation', async () => {
+        const api = await loadApi();
+        const first = await call(api.ttc, {});
+        const etag = first.headers['etag'];
+        expect(etag).toBeTruthy();
+        expect(first.headers['last-modified']).toBeTruthy();
+
+        expect((await call(api.ttc, {}, { 'if-none-match': etag })).statusCode).toBe(304);
+        expect((await call(api.ttc, { aggregation: 'mode' })).statusCode).toBe(400);
+        expect((await call(api.ttc, { aggregation: 'median' })).statusCode).toBe(200);
+    });
+
+    it('handles a single vehicle, an empty feed and a missing body', async () => {
+        feed.useFixture('vehicleLocations', 'vehicleLocations-single');
+        let res = await call((await loadApi()).ttc, {});
+        expect(res.body).toMatchObject([{ routeTag: '501', liveSpeedKmh: 12, vehicleCount: 1 }]);
+
+        for (const fixture of ['vehicleLocations-empty', 'vehicleLocations-no-body']) {
+            feed.useFixture('vehicleLocations', fixture);
+            res = await call((await loadApi()).ttc, {});
+            expect(res.statusCode).toBe(200);
+            expect(res.body).toEqual([]);
+        }
+    });
+
+    it('passes an upstream error status through and still serves without route titles', async () => {
+        feed.failWith('vehicleLocations', 503);
+        expect((await call((await loadApi()).ttc, {})).statusCode).toBe(503);
+
+        feed.failWith('vehicleLocations', null);
+        feed.failWith('routeList', 500);
+        const res = await call((await loadApi()).ttc, {});
+        expect(res.statusCode).toBe(200);
+        expect((res.body as RouteRow[]).map((r) => r.routeTitle)).toEqual([null, null, null]);
+    });
+});
+
+describe('GET /api/route/:tag', () => {
+    it('lists every vehicle with its exclusion reason and direction title', async () => {
+        const api = await loadApi();
+        const res = await call(api.route, { tag: '501' });
+
+        expect(res.statusCode).toBe(200);
+        const detail = res.body as {
+            liveSpeedKmh: number;
+            vehicles: Array<{ vehicleId: string; speedKmh: number | null; dirTitle: string | null; excludedReason: string | null }>;
+        };
+        expect(detail.liveSpeedKmh).toBe(15);
+        expect(detail.vehicles.map((v) => [v.vehicleId, v.excludedReason])).toEqual([
+            ['4401', null],
+            ['4402', null],
+            ['4403', null],
+            ['4404', 'stale'],
+            ['4405', 'nonPredictable'],
+            ['4406', 'layover'],
+        ]);
+        expect(detail.vehicles[1].dirTitle).toBe('West - 501 Queen towards Long Branch');
+        expect(detail.vehicles[2].speedKmh).toBeNull();
+
+        expect((await call(api.route, { tag: '505' })).statusCode).toBe(404);
+    });
+});
@@ -0,0 +1,63 @@
+import type { KvClient, KvSetOptions } from '../api/kv';
+
+/**
+ * In-memory `KvClient` for tests.
+ *
+ * Every operation yields to the event loop first (like a network round trip), so concurrent
+ * invocations interleave the way overlapping serverless calls do. `SET NX PX` is atomic, as in
+ * Redis. Expiry follows `Date.now()`, so fake timers can age claims.
+ */
+export type FakeKv = KvClient & {
+    values: Map<string, string>;
+    /** Operation log (`get key`, `set key`, …) in execution order. */
+    ops: string[];
+};
+
+function roundTrip(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+}
+
+export function createFakeKv(): FakeKv {
+    const values = new Map<string, string>();
+    const expiresAtMs = new Map<string, number>();
+    const ops: string[] = [];
+
+    const read = (key: string): string | null => {
+        const expiry = expiresAtMs.get(key);
+        if (expiry !== undefined && expiry <= Date.now()) {
+            values.delete(key);
+            expiresAtMs.delete(key);
+        }
+        return values.get(key) ?? null;
+    };
+
+    return {
+        values,
+        ops,
+        get: async (key) => {
+            await roundTrip();
+            ops.push(`get ${key}`);
+            return read(key);
+        },
+        mget: async (...keys) => {
+            await roundTrip();
+            ops.push(`mget ${keys.join(' ')}`);
+            return keys.map(read);
+        },
+        set: async (key, value, opts?: KvSetOptions) => {
+            await roundTrip();
+            ops.push(`set ${key}`);
+            if (opts && 'nx' in opts && read(key) !== null) return null;
+            values.set(key, value);
+            if (opts) expiresAtMs.set(key, Date.now() + opts.px);
+            else expiresAtMs.delete(key);
+            return 'OK';
+        },
+        del: async (key) => {
+            await roundTrip();
+            ops.push(`del ${key}`);
+            expiresAtMs.delete(key);
+            return values.delete(key) ? 1 : 0;
+        },
+    };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ROUTES_PER_REQUEST, parseRouteTagsParam, sleep } from '../api/http';
+
+describe('route query parameter', () => {
+    it('accepts comma lists and repeated parameters, trimmed and de-duplicated', () => {
+        expect(parseRouteTagsParam('501, 504,,501')).toEqual({ routeTags: ['501', '504'] });
+        expect(parseRouteTagsParam(['501', '504,505'])).toEqual({ routeTags: ['501', '504', '505'] });
+    });
+
+    it('rejects a missing route and too many routes', () => {
+        expect(parseRouteTagsParam(undefined)).toHaveProperty('error');
+        expect(parseRouteTagsParam(' , ')).toHaveProperty('error');
+        const tooMany = Array.from({ length: MAX_ROUTES_PER_REQUEST + 1 }, (_, i) => String(i + 1)).join(',');
+        expect(parseRouteTagsParam(tooMany)).toHaveProperty('error');
+    });
+});
+
+describe('sleep', () => {
+    it('resolves as soon as its signal aborts', async () => {
+        const stop = new AbortController();
+        const startedMs = Date.now();
+        const slept = sleep(60_000, stop.signal);
+        stop.abort();
+        await slept;
+        expect(Date.now() - startedMs).toBeLessThan(1000);
+        await sleep(60_000, stop.signal);
+    });
+});
@@ -0,0 +1,34 @@
+import type { VercelRequest } from '@vercel/node';
+import { describe, expect, it } from 'vitest';
+import { contentEtag, isNotModified } from '../api/httpCache';
+
+const MODIFIED_MS = Date.UTC(2026, 0, 5, 12, 0, 0, 400);
+
+function request(headers: Record<string, string>): VercelRequest {
+    return { headers } as unknown as VercelRequest;
+}
+
+describe('conditional requests', () => {
+    const etag = contentEtag('[{"routeTag":"501"}]');
+
+    it('derives the same strong ETag from the same body', () => {
+        expect(contentEtag('[{"routeTag":"501"}]')).toBe(etag);
+        expect(contentEtag('[{"routeTag":"504"}]')).not.toBe(etag);
+        expect(etag).toMatch(/^"[^"]+"$/);
+    });
+
+    it('matches If-None-Match lists, weak tags and *', () => {
+        expect(isNotModified(request({ 'if-none-match': etag }), etag)).toBe(true);
+        expect(isNotModified(request({ 'if-none-match': `"other", W/${etag}` }), etag)).toBe(true);
+        expect(isNotModified(request({ 'if-none-match': '*' }), etag)).toBe(true);
+        expect(isNotModified(request({ 'if-none-match': '"other"' }), etag)).toBe(false);
+    });
+
+    it('ignores If-Modified-Since', () => {
+        const lastModified = new Date(MODIFIED_MS).toUTCString();
+        expect(isNotModified(request({ 'if-modified-since': lastModified }), etag)).toBe(false);
+        const both = request({ 'if-none-match': etag, 'if-modified-since': lastModified });
+        expect(isNotModified(both, etag)).toBe(true);
+        expect(isNotModified(request({}), etag)).toBe(false);
+    });
+});
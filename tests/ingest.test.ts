@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { computeSpeedStat, createFeedParser, parseSpeedKmh, parseVehicleLocations, parseVehicleLocationsLastTime } from '../api/ingest';
+import { FIXTURES_DIR } from '../scripts/mockFeed';
+
+function parseFixture(name: string): unknown {
+    return createFeedParser().parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.xml`), 'utf-8'));
+}
+
+describe('vehicleLocations parsing', () => {
+    it('treats missing, blank, non-numeric and negative speeds as unknown', () => {
+        expect(parseSpeedKmh('12.5')).toBe(12.5);
+        expect(parseSpeedKmh(' 0 ')).toBe(0);
+        expect(parseSpeedKmh(7)).toBe(7);
+        for (const value of [undefined, null, '', '  ', 'abc', 'NaN', 'Infinity', '-5']) {
+            expect(parseSpeedKmh(value)).toBeNull();
+        }
+    });
+
+    it('normalizes vehicles and skips ones without a route tag', () => {
+        const json = parseFixture('vehicleLocations');
+        const vehicles = parseVehicleLocations(json);
+
+        expect(parseVehicleLocationsLastTime(json)).toBe(1767632400000);
+        expect(vehicles.map((v) => v.vehicleId)).not.toContain('9999');
+        expect(vehicles).toHaveLength(10);
+        expect(vehicles[0]).toEqual({
+            vehicleId: '4401',
+            routeTag: '501',
+            dirTag: '501_0_501',
+            lat: 43.65,
+            lon: -79.39,
+            heading: 90,
+            speedKmh: 20,
+            speedSource: 'reported',
+            secsSinceReport: 5,
+            predictable: true,
+        });
+        const byId = new Map(vehicles.map((v) => [v.vehicleId, v]));
+        expect(byId.get('4403')).toMatchObject({ speedKmh: null, speedSource: null });
+        expect(byId.get('4405')?.predictable).toBe(false);
+        expect(byId.get('8102')?.speedKmh).toBeNull();
+        expect(byId.get('8103')?.speedKmh).toBeNull();
+    });
+
+    it('handles a single vehicle object, an empty feed and a missing body', () => {
+        expect(parseVehicleLocations(parseFixture('vehicleLocations-single'))).toMatchObject([
+            { vehicleId: '4401', routeTag: '501', speedKmh: 12 },
+        ]);
+        expect(parseVehicleLocations(parseFixture('vehicleLocations-empty'))).toEqual([]);
+        expect(parseVehicleLocations(parseFixture('vehicleLocations-no-body'))).toEqual([]);
+        expect(parseVehicleLocationsLastTime(parseFixture('vehicleLocations-no-body'))).toBeNull();
+    });
+});
+
+describe('speed statistics', () => {
+    it('trims at least one vehicle from each end from 3 vehicles up', () => {
+        // A single fast outlier on a small route.
+        expect(computeSpeedStat([10, 12, 14, 60], 'trimmed')).toBe(13);
+        expect(computeSpeedStat([10, 12, 60], 'trimmed')).toBe(12);
+        // Too few to trim.
+        expect(computeSpeedStat([10, 60], 'trimmed')).toBe(35);
+        // 10% of 20 vehicles is two from each end.
+        const speeds = [0, 1, ...Array.from({ length: 16 }, () => 20), 90, 100];
+        expect(computeSpeedStat(speeds, 'trimmed')).toBe(20);
+    });
+});
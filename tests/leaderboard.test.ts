@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { diffLeaderboard, type LiveRouteSpeed } from '../api/leaderboard';
+
+function route(routeTag: string, liveSpeedKmh: number, overrides: Partial<LiveRouteSpeed> = {}): LiveRouteSpeed {
+    return {
+        routeTag,
+        routeTitle: `${routeTag}-Route`,
+        mode: 'streetcar',
+        serviceCategory: 'regular',
+        liveSpeedKmh,
+        liveSpeedStat: 'mean',
+        avg24hAvailable: true,
+        avg1hSpeedKmh: 10,
+        avg24hSpeedKmh: 11,
+        avg7dSpeedKmh: 12,
+        avg30dSpeedKmh: 13,
+        vehicleCount: 5,
+        reportedSampleCount: 5,
+        derivedSampleCount: 0,
+        excludedVehicleCounts: { stale: 0, nonPredictable: 0, layover: 0 },
+        directions: [],
+        updatedAt: '2026-01-05T12:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('leaderboard deltas', () => {
+    it('only includes routes whose displayed values changed', () => {
+        const prev = [route('501', 12.3), route('504', 9.1), route('505', 8)];
+        const next = [
+            route('501', 12.3, { updatedAt: '2026-01-05T12:00:01.000Z', vehicleCount: 6, reportedSampleCount: 6 }),
+            route('504', 9.2),
+            route('505', 8, { avg24hSpeedKmh: 10.9 }),
+        ];
+
+        const delta = diffLeaderboard(prev, next);
+        expect(delta.changed.map((r) => r.routeTag)).toEqual(['504', '505']);
+        expect(delta.removed).toEqual([]);
+    });
+
+    it('reports new routes, title changes and removed routes', () => {
+        const prev = [route('501', 12.3), route('504', 9.1)];
+        const next = [route('501', 12.3, { routeTitle: '501-Queen' }), route('506', 7.5)];
+
+        const delta = diffLeaderboard(prev, next);
+        expect(delta.changed.map((r) => r.routeTag)).toEqual(['501', '506']);
+        expect(delta.removed).toEqual(['504']);
+    });
+});
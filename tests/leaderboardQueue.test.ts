@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { LeaderboardQueue, type LeaderboardData } from '../src/LeaderboardQueue';
+
+function item(routeNumber: string, liveSpeedKmh: number): LeaderboardData {
+    return {
+        routeNumber,
+        routeTitle: `${routeNumber}-Route`,
+        liveSpeedKmh,
+        avg1hSpeedKmh: null,
+        avg24hSpeedKmh: null,
+        avg7dSpeedKmh: null,
+        avg30dSpeedKmh: null,
+        vehicleCount: 1,
+        directions: [],
+        updatedAt: '2026-01-05T12:00:00.000Z',
+        transitType: 'streetcar',
+        serviceCategory: 'regular',
+    };
+}
+
+describe('leaderboard queue', () => {
+    it('replaces queued routes in place and appends new ones', () => {
+        const queue = new LeaderboardQueue();
+        queue.upsertAll([item('501', 10), item('504', 12)]);
+        queue.upsertAll([item('504', 14), item('505', 8)]);
+
+        expect(queue.size()).toBe(3);
+        expect(queue.popFront()?.routeNumber).toBe('501');
+        // 504 keeps its place but carries the newer speed.
+        expect(queue.peekFront()).toMatchObject({ routeNumber: '504', liveSpeedKmh: 14 });
+        expect(queue.popFront()?.routeNumber).toBe('504');
+        expect(queue.popFront()?.routeNumber).toBe('505');
+        expect(queue.isEmpty()).toBe(true);
+        expect(queue.popFront()).toBeUndefined();
+    });
+});
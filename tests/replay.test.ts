@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { appendArchiveRecords } from '../api/archive';
+import type { VehicleObservation } from '../api/ingest';
+import { createReplaySource, loopRecordedTime } from '../api/replay';
+import { encodeVehicleArchiveRecord } from '../api/vehicleArchive';
+
+const POLL_1 = Date.UTC(2026, 0, 5, 17, 0, 0);
+const POLL_2 = POLL_1 + 60_000;
+
+function observation(vehicleId: string, speedKmh: number): VehicleObservation {
+    return {
+        vehicleId,
+        routeTag: '501',
+        dirTag: '501_0_501',
+        lat: 43.65,
+        lon: -79.38,
+        heading: 90,
+        speedKmh,
+        speedSource: 'reported',
+        secsSinceReport: 5,
+        predictable: true,
+    };
+}
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('replay source', () => {
+    it('plays a vehicle archive from a start time at the chosen speed', async () => {
+        appendArchiveRecords({ dir, prefix: 'vehicles' }, [
+            encodeVehicleArchiveRecord([observation('4401', 10)], POLL_1, POLL_1),
+            encodeVehicleArchiveRecord([observation('4401', 20), observation('4402', 30)], POLL_2, POLL_2),
+        ]);
+        const source = createReplaySource({ dir, startMs: POLL_1 + 30_000, speed: 10 }, 0);
+
+        expect(source.kind).toBe('replay');
+        expect(source.clock?.(0)).toBe(POLL_1 + 30_000);
+        // Before the second poll: the first poll, 30 s older.
+        expect(await source.fetchVehicles(source.clock!(0))).toEqual([{ ...observation('4401', 10), secsSinceReport: 35 }]);
+        // 3 s of wall-clock time at 10× is past the second poll.
+        const later = await source.fetchVehicles(source.clock!(3_000));
+        expect(later.map((o) => [o.vehicleId, o.speedKmh])).toEqual([
+            ['4401', 20],
+            ['4402', 30],
+        ]);
+    });
+
+    it('loops back to the start of the recording', () => {
+        expect(loopRecordedTime(POLL_2 + 15_000, POLL_1, POLL_2)).toBe(POLL_1 + 15_000);
+        expect(loopRecordedTime(POLL_1 - 15_000, POLL_1, POLL_2)).toBe(POLL_1 + 45_000);
+        expect(loopRecordedTime(POLL_2, POLL_1, POLL_1)).toBe(POLL_1);
+    });
+
+    it('replays saved vehicleLocations XML snapshots', async () => {
+        fs.writeFileSync(
+            path.join(dir, `vehicleLocations-${POLL_1}.xml`),
+            `<body><vehicle id="4401" routeTag="504" dirTag="504_0" lat="43.6" lon="-79.4" secsSinceReport="4" predictable="true" heading="90" speedKmHr="12"/><lastTime time="${POLL_1}"/></body>`
+        );
+        const source = createReplaySource({ dir, startMs: null, speed: 1 }, 0);
+
+        expect(source.clock?.(2_000)).toBe(POLL_1 + 2_000);
+        const vehicles = await source.fetchVehicles(source.clock!(2_000));
+        expect(vehicles).toMatchObject([{ vehicleId: '4401', routeTag: '504', speedKmh: 12, secsSinceReport: 6 }]);
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { classifyRoute } from '../api/routeClasses';
+import type { RouteConfig } from '../api/routeConfig';
+
+function config(routeTag: string, title: string, directionTitles: string[] = []): RouteConfig {
+    return {
+        routeTag,
+        title,
+        stopsByTag: {},
+        directions: directionTitles.map((t, i) => ({ tag: `${routeTag}_${i}`, title: t, name: null, useForUI: true, stopTags: [] })),
+        terminals: [],
+    };
+}
+
+describe('route classification', () => {
+    it('classifies by TTC numbering when there is no metadata', () => {
+        expect(classifyRoute('504', null)).toEqual({ mode: 'streetcar', serviceCategory: 'regular' });
+        expect(classifyRoute('2', null)).toEqual({ mode: 'subway', serviceCategory: 'regular' });
+        expect(classifyRoute('54', null)).toEqual({ mode: 'bus', serviceCategory: 'regular' });
+        expect(classifyRoute('300', null)).toEqual({ mode: 'bus', serviceCategory: 'blue-night' });
+        expect(classifyRoute('939', null)).toEqual({ mode: 'bus', serviceCategory: 'express' });
+        expect(classifyRoute('400', null)).toEqual({ mode: 'bus', serviceCategory: 'community' });
+        expect(classifyRoute('801', null)).toEqual({ mode: 'bus', serviceCategory: 'shuttle' });
+    });
+
+    it('applies overrides for lines and Blue Night streetcars', () => {
+        expect(classifyRoute('6', '6-Finch West')).toEqual({ mode: 'lrt', serviceCategory: 'regular' });
+        expect(classifyRoute('304', '304-King')).toEqual({ mode: 'streetcar', serviceCategory: 'blue-night' });
+    });
+
+    it('prefers title keywords over numbering', () => {
+        expect(classifyRoute('96', '96-Wilson')).toEqual({ mode: 'bus', serviceCategory: 'regular' });
+        expect(classifyRoute('96', '96 Express-Wilson')).toEqual({ mode: 'bus', serviceCategory: 'express' });
+    });
+
+    it('uses routeConfig direction titles once loaded and keeps that class', () => {
+        expect(classifyRoute('52', '52-Lawrence West')).toEqual({ mode: 'bus', serviceCategory: 'regular' });
+        expect(
+            classifyRoute('52', '52-Lawrence West', config('52', '52-Lawrence West', ['West - 52 Express towards Pearson']))
+        ).toEqual({ mode: 'bus', serviceCategory: 'express' });
+        // A later response without the config (e.g. a failed refetch) doesn't flip it back.
+        expect(classifyRoute('52', '52-Lawrence West')).toEqual({ mode: 'bus', serviceCategory: 'express' });
+        // Replacement shuttles stay buses even when their metadata names the line.
+        expect(classifyRoute('1S', null, config('1S', 'Line 1 Subway Shuttle'))).toEqual({
+            mode: 'bus',
+            serviceCategory: 'shuttle',
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readSampleHistory, recordMinuteSamples, SAMPLE_INTERVAL_MS } from '../api/avg24h';
+import { sampleRollingAverages } from '../api/rollups';
+import { createFakeKv } from './fakeKv';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// 2026-01-05 12:00:30 UTC (a few seconds into a minute bucket).
+const T0 = Date.UTC(2026, 0, 5, 12, 0, 30);
+const HOUR0 = Date.UTC(2026, 0, 5, 12);
+
+function live(speedKmh: number) {
+    return [{ routeTag: '501', liveSpeedKmh: speedKmh }];
+}
+
+describe('per-hour sample layout', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('writes only the current hour key for each route', async () => {
+        const kv = createFakeKv();
+
+        await recordMinuteSamples(kv, live(10), T0);
+        await recordMinuteSamples(kv, live(20), T0 + HOUR_MS);
+        kv.ops.length = 0;
+        await recordMinuteSamples(kv, live(30), T0 + HOUR_MS + SAMPLE_INTERVAL_MS);
+
+        const sampleWrites = kv.ops.filter((op) => op.startsWith('set ttc:avg24h:hour:'));
+        expect(sampleWrites).toEqual([`set ttc:avg24h:hour:501:${HOUR0 + HOUR_MS}`]);
+        expect(kv.values.get(`ttc:avg24h:hour:501:${HOUR0}`)).toBe(JSON.stringify([[HOUR0, 10]]));
+    });
+
+    it('expires hour keys once they leave the 24h window', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(T0);
+        const kv = createFakeKv();
+
+        await recordMinuteSamples(kv, live(10), T0);
+        expect(await kv.get(`ttc:avg24h:hour:501:${HOUR0}`)).not.toBeNull();
+
+        vi.setSystemTime(T0 + DAY_MS + 3 * HOUR_MS);
+        expect(await kv.get(`ttc:avg24h:hour:501:${HOUR0}`)).toBeNull();
+    });
+
+    it('reads legacy per-route blobs in both sample formats', async () => {
+        const kv = createFakeKv();
+        kv.values.set('ttc:avg24h:samples:501', JSON.stringify([[T0 - 2 * HOUR_MS, 8], [T0 - DAY_MS - HOUR_MS, 1]]));
+        kv.values.set('ttc:avg24h:samples:504', JSON.stringify([{ t: T0 - HOUR_MS, v: 12 }]));
+
+        await recordMinuteSamples(kv, [...live(10), { routeTag: '504', liveSpeedKmh: 14 }], T0);
+        const history = await readSampleHistory(kv, ['501', '504'], T0);
+
+        // Samples older than 24h are dropped; legacy and hour-key samples are merged in order.
+        expect(history['501'].map((s) => s.v)).toEqual([8, 10]);
+        expect(history['504'].map((s) => s.v)).toEqual([12, 14]);
+    });
+
+    it('includes legacy samples in the rolling averages', async () => {
+        const kv = createFakeKv();
+        const legacy = Array.from({ length: 5 }, (_, i) => [T0 - 3 * HOUR_MS + i * SAMPLE_INTERVAL_MS, 20]);
+        kv.values.set('ttc:avg24h:samples:501', JSON.stringify(legacy));
+
+        const { averagesByRouteTag } = await sampleRollingAverages(kv, live(10), T0);
+
+        // Five legacy samples at 20 and one new sample at 10.
+        expect(averagesByRouteTag['501'].avg24hSpeedKmh).toBe(18.3);
+        expect(averagesByRouteTag['501'].avg1hSpeedKmh).toBe(10);
+    });
+
+    it('deletes a legacy blob once all its samples have aged out', async () => {
+        const kv = createFakeKv();
+        kv.values.set('ttc:avg24h:samples:501', JSON.stringify([[T0 - 2 * HOUR_MS, 8]]));
+
+        await recordMinuteSamples(kv, live(10), T0);
+        await recordMinuteSamples(kv, live(10), T0 + 3 * HOUR_MS);
+        expect(kv.values.has('ttc:avg24h:samples:501')).toBe(true);
+
+        await recordMinuteSamples(kv, live(10), T0 + DAY_MS - HOUR_MS);
+        expect(kv.values.has('ttc:avg24h:samples:501')).toBe(false);
+    });
+
+    it('appends a daily rollup with a one-year expiry once a UTC day closes', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        const kv = createFakeKv();
+
+        for (const [speedKmh, nowMs] of [[10, T0], [20, T0 + HOUR_MS], [12, T0 + DAY_MS]]) {
+            vi.setSystemTime(nowMs);
+            await sampleRollingAverages(kv, live(speedKmh), nowMs);
+        }
+
+        // 12:00 and 13:00 were sampled on Jan 5, one minute each.
+        expect(JSON.parse(kv.values.get('ttc:rollup:daily:501') ?? 'null')).toEqual([[Date.UTC(2026, 0, 5), 15, 2]]);
+        vi.setSystemTime(T0 + DAY_MS + 366 * DAY_MS);
+        expect(await kv.get('ttc:rollup:daily:501')).toBeNull();
+    });
+});
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readMissedBucketReport, readSampleHistory, recordMinuteSamples, SAMPLE_INTERVAL_MS } from '../api/avg24h';
+import { readProfiles } from '../api/hourOfWeek';
+import { getRollingAveragesByRouteTag } from '../api/rollups';
+import { createFakeKv } from './fakeKv';
+
+const HOUR_MS = 60 * 60 * 1000;
+// 2026-01-05 12:00:30 UTC (a few seconds into a minute bucket).
+const T0 = Date.UTC(2026, 0, 5, 12, 0, 30);
+
+function live(speedKmh: number) {
+    return [{ routeTag: '501', liveSpeedKmh: speedKmh }];
+}
+
+describe('bucket sampling claim', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('lets exactly one of several concurrent invocations sample a bucket', async () => {
+        const kv = createFakeKv();
+
+        const results = await Promise.all(
+            [10, 11, 12, 13, 14].map((speed) => recordMinuteSamples(kv, live(speed), T0))
+        );
+
+        const winners = results.filter((r) => r.sampled);
+        expect(winners).toHaveLength(1);
+
+        const history = (await readSampleHistory(kv, ['501'], T0))['501'];
+        expect(history).toHaveLength(1);
+        expect(history[0].v).toBe(winners[0].samplesByRouteTag['501'][0].v);
+    });
+
+    it('never drops a sample when adjacent buckets overlap', async () => {
+        const kv = createFakeKv();
+        const nowByCall = [T0, T0 + SAMPLE_INTERVAL_MS, T0, T0 + SAMPLE_INTERVAL_MS, T0 + 2 * SAMPLE_INTERVAL_MS];
+
+        const results = await Promise.all(nowByCall.map((nowMs, i) => recordMinuteSamples(kv, live(10 + i), nowMs)));
+        // A later, uncontended call in the newest bucket.
+        results.push(await recordMinuteSamples(kv, live(99), T0 + 2 * SAMPLE_INTERVAL_MS + 1000));
+
+        const history = (await readSampleHistory(kv, ['501'], T0 + 3 * SAMPLE_INTERVAL_MS))['501'];
+        const sampled = results.filter((r) => r.sampled);
+        expect(sampled.length).toBeGreaterThan(0);
+        for (const r of sampled) {
+            expect(history).toContainEqual(r.samplesByRouteTag['501'].find((s) => s.t === r.bucketMs));
+        }
+        // One sample per bucket at most.
+        expect(new Set(history.map((s) => s.t)).size).toBe(history.length);
+    });
+
+    it('releases the claim so the next bucket can be sampled', async () => {
+        const kv = createFakeKv();
+
+        const first = await recordMinuteSamples(kv, live(10), T0);
+        const second = await recordMinuteSamples(kv, live(20), T0 + SAMPLE_INTERVAL_MS);
+
+        expect(first.sampled).toBe(true);
+        expect(second.sampled).toBe(true);
+        expect(second.lastBucketMs).toBe(first.bucketMs);
+        expect(kv.values.has('ttc:avg24h:claim')).toBe(false);
+    });
+
+    it('recovers after a claim holder dies without releasing', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(T0);
+        const kv = createFakeKv();
+        await kv.set('ttc:avg24h:claim', 'crashed', { nx: true, px: 30 * 1000 });
+
+        const blocked = await recordMinuteSamples(kv, live(10), T0);
+        expect(blocked.sampled).toBe(false);
+
+        vi.setSystemTime(T0 + 31 * 1000);
+        const recovered = await recordMinuteSamples(kv, live(10), T0 + 31 * 1000);
+        expect(recovered.sampled).toBe(true);
+    });
+
+    it('skips a bucket older than the last recorded one', async () => {
+        const kv = createFakeKv();
+
+        await recordMinuteSamples(kv, live(10), T0 + SAMPLE_INTERVAL_MS);
+        const straggler = await recordMinuteSamples(kv, live(20), T0);
+
+        expect(straggler.sampled).toBe(false);
+        expect((await readSampleHistory(kv, ['501'], T0 + SAMPLE_INTERVAL_MS))['501']).toHaveLength(1);
+    });
+
+    it('logs missed buckets when page traffic samples first after a gap', async () => {
+        const kv = createFakeKv();
+        const afterGap = T0 + 10 * SAMPLE_INTERVAL_MS;
+
+        await getRollingAveragesByRouteTag(kv, live(10), T0);
+        await getRollingAveragesByRouteTag(kv, live(12), afterGap);
+
+        const report = await readMissedBucketReport(kv, afterGap);
+        expect(report.missedBucketCount).toBe(9);
+        expect(report.ranges).toEqual([
+            { startMs: Date.UTC(2026, 0, 5, 12, 1), endMs: Date.UTC(2026, 0, 5, 12, 10), buckets: 9 },
+        ]);
+    });
+});
+
+describe('rollups under concurrency', () => {
+    it('rolls a closed hour up once even when the hourly tick races', async () => {
+        const kv = createFakeKv();
+        const hourStartMs = Math.floor(T0 / HOUR_MS) * HOUR_MS;
+
+        // Fill one hour of minute samples sequentially.
+        for (let m = 0; m < 60; m++) {
+            await getRollingAveragesByRouteTag(kv, live(12), hourStartMs + m * SAMPLE_INTERVAL_MS + 1000);
+        }
+
+        // Several invocations land on the first bucket of the next hour at once.
+        const nextHourMs = hourStartMs + HOUR_MS + 1000;
+        const results = await Promise.all([1, 2, 3, 4].map(() => getRollingAveragesByRouteTag(kv, live(30), nextHourMs)));
+
+        const hourly = JSON.parse(kv.values.get('ttc:rollup:hourly:501') ?? '[]') as unknown[];
+        expect(hourly).toEqual([[hourStartMs, 12, 60]]);
+
+        const profile = (await readProfiles(kv, ['501']))['501'];
+        expect(profile.reduce((acc, b) => acc + b.n, 0)).toBe(60);
+
+        // Losers don't wait for the winner: they read back whatever averages are cached.
+        for (const r of results) {
+            expect(r['501'].avg24hSpeedKmh).not.toBeNull();
+        }
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { VehicleObservation } from '../api/ingest';
+import { fetchSnapshotVehicles, mergeVehicleUpdate } from '../api/snapshot';
+import type { VehicleFeedUpdate, VehicleSource } from '../api/sources';
+
+const T0 = Date.UTC(2026, 0, 5, 12, 0, 0);
+
+function vehicle(vehicleId: string | null, speedKmh: number, secsSinceReport = 0): VehicleObservation {
+    return {
+        vehicleId,
+        routeTag: '501',
+        dirTag: null,
+        lat: 43.65,
+        lon: -79.38,
+        heading: null,
+        speedKmh,
+        speedSource: 'reported',
+        secsSinceReport,
+        predictable: true,
+    };
+}
+
+describe('vehicle snapshot', () => {
+    it('merges incremental updates by vehicle id and ages carried-over reports', () => {
+        const full = mergeVehicleUpdate(
+            null,
+            { vehicles: [vehicle('a', 10, 5), vehicle('b', 20), vehicle(null, 30)], lastTimeMs: T0 },
+            'nextbus',
+            true,
+            T0
+        );
+        const next = mergeVehicleUpdate(
+            full,
+            { vehicles: [vehicle('b', 25), vehicle('c', 15)], lastTimeMs: T0 + 10_000 },
+            'nextbus',
+            false,
+            T0 + 10_000
+        );
+
+        expect(next.lastTimeMs).toBe(T0 + 10_000);
+        expect(next.fullFetchedAtMs).toBe(T0);
+        const byId = new Map(next.vehicles.map((v) => [v.vehicleId, v]));
+        expect([...byId.keys()].sort()).toEqual(['a', 'b', 'c']);
+        expect(byId.get('b')?.speedKmh).toBe(25);
+        // `a` reported 5s before T0 and was not in the update.
+        expect(byId.get('a')?.reportedAtMs).toBe(T0 - 5_000);
+    });
+
+    it('drops vehicles that have not reported for 15 minutes', () => {
+        const full = mergeVehicleUpdate(null, { vehicles: [vehicle('a', 10)], lastTimeMs: T0 }, 'nextbus', true, T0);
+        const later = T0 + 16 * 60 * 1000;
+        const next = mergeVehicleUpdate(full, { vehicles: [vehicle('b', 20)], lastTimeMs: later }, 'nextbus', false, later);
+
+        expect(next.vehicles.map((v) => v.vehicleId)).toEqual(['b']);
+    });
+
+    it('shares one upstream fetch between concurrent requests and polls incrementally after', async () => {
+        const calls: Array<number | null> = [];
+        const source: VehicleSource = {
+            kind: 'nextbus',
+            fetchVehicles: async () => [],
+            fetchVehicleUpdate: async (nowMs, sinceMs): Promise<VehicleFeedUpdate> => {
+                calls.push(sinceMs);
+                await new Promise((resolve) => setImmediate(resolve));
+                return { vehicles: sinceMs === null ? [vehicle('a', 10)] : [vehicle('b', 20)], lastTimeMs: nowMs };
+            },
+        };
+
+        const results = await Promise.all([1, 2, 3, 4].map(() => fetchSnapshotVehicles(source, T0)));
+        expect(calls).toEqual([null]);
+        expect(results.every((r) => r.fetchedAtMs === T0 && r.observations.length === 1)).toBe(true);
+
+        // Still fresh: served from memory.
+        await fetchSnapshotVehicles(source, T0 + 1_000);
+        expect(calls).toEqual([null]);
+
+        const { observations } = await fetchSnapshotVehicles(source, T0 + 6_000);
+        expect(calls).toEqual([null, T0]);
+        expect(observations.map((o) => o.vehicleId).sort()).toEqual(['a', 'b']);
+        expect(observations.find((o) => o.vehicleId === 'a')?.secsSinceReport).toBe(6);
+    });
+});
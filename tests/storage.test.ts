@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileKvClient } from '../api/storage';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('file storage backend', () => {
+    it('shares keys and NX claims between clients on the same directory', async () => {
+        // Two clients stand in for two processes (e.g. the sampler and the dev server).
+        const a = createFileKvClient(path.join(dir, 'kv'));
+        const b = createFileKvClient(path.join(dir, 'kv'));
+
+        await a.set('ttc:avg24h:last', '100');
+        expect(await b.get('ttc:avg24h:last')).toBe('100');
+
+        const p = b.pipeline!();
+        p.set('ttc:rollup:hourly:501', '[]').del('ttc:avg24h:last');
+        await p.exec();
+        expect(await a.mget('ttc:rollup:hourly:501', 'ttc:avg24h:last')).toEqual(['[]', null]);
+
+        const claims = await Promise.all([
+            a.set('ttc:avg24h:claim', 'a', { nx: true, px: 30_000 }),
+            b.set('ttc:avg24h:claim', 'b', { nx: true, px: 30_000 }),
+        ]);
+        expect(claims.filter((r) => r === 'OK')).toHaveLength(1);
+        expect(fs.existsSync(path.join(dir, 'kv', '.lock'))).toBe(false);
+    });
+
+});
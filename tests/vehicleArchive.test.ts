@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateRouteSpeeds, type VehicleObservation } from '../api/ingest';
+import { decodeVehicleArchiveRecord, encodeVehicleArchiveRecord } from '../api/vehicleArchive';
+
+function observation(vehicleId: string, speedKmh: number | null, overrides: Partial<VehicleObservation> = {}): VehicleObservation {
+    return {
+        vehicleId,
+        routeTag: '501',
+        dirTag: '501_0_501',
+        lat: 43.65,
+        lon: -79.38,
+        heading: 90,
+        speedKmh,
+        speedSource: speedKmh === null ? null : 'reported',
+        secsSinceReport: 12,
+        predictable: true,
+        ...overrides,
+    };
+}
+
+describe('raw vehicle archive', () => {
+    it('round-trips observations so route speeds can be recomputed', () => {
+        const observations = [observation('4401', 12), observation('4402', 0), observation('4403', null, { predictable: false })];
+        const record = JSON.parse(JSON.stringify(encodeVehicleArchiveRecord(observations, 1_000, 900)));
+
+        const decoded = decodeVehicleArchiveRecord(record);
+        expect(decoded).toEqual(observations);
+        expect(aggregateRouteSpeeds(decoded, 'mean')).toEqual(aggregateRouteSpeeds(observations, 'mean'));
+    });
+
+    it('drops derived speeds and reads columns by name', () => {
+        const record = encodeVehicleArchiveRecord([observation('4401', 15, { speedSource: 'derived' })], 1_000, 900);
+        expect(decodeVehicleArchiveRecord(record)[0]).toMatchObject({ speedKmh: null, speedSource: null });
+
+        const decoded = decodeVehicleArchiveRecord({
+            timestampMs: 1_000,
+            fetchedAtMs: 900,
+            fields: ['speedKmHr', 'routeTag', 'someFutureField'],
+            rows: [[8.5, '504', 'x'], [3, null, 'x']],
+        });
+        expect(decoded).toEqual([
+            {
+                vehicleId: null,
+                routeTag: '504',
+                dirTag: null,
+                lat: null,
+                lon: null,
+                heading: null,
+                speedKmh: 8.5,
+                speedSource: 'reported',
+                secsSinceReport: null,
+                predictable: null,
+            },
+        ]);
+    });
+});